@@ -0,0 +1,43 @@
+import { createStorage } from "../storage/storage.mts";
+import { FileWriter } from "../utils/file-writer.mts";
+import { toALabel } from "../utils/idn.mts";
+
+interface DomainsByNsOptions {
+	nameserver: string;
+	provider: boolean;
+	tld?: string;
+	output?: string;
+}
+
+export async function runDomainsByNs(options: DomainsByNsOptions): Promise<void> {
+	const storage = createStorage();
+	await storage.open();
+
+	try {
+		const host = toALabel(options.nameserver).replace(/\.$/, "");
+		const rows = await storage.findDomainsByNameserver(host, {
+			provider: options.provider,
+			tld: options.tld ? toALabel(options.tld) : undefined,
+		});
+		const domains = new Set(rows.map((row) => row.domain));
+		const tlds = new Set(rows.map((row) => row.tld));
+		console.log(
+			`🔎 ${domains.size} domains in ${tlds.size} TLDs delegated to ${options.provider ? "provider " : ""}${options.nameserver}`,
+		);
+
+		if (options.output) {
+			FileWriter.writeJson(options.output, {
+				nameserver: options.nameserver,
+				provider: options.provider,
+				domains: rows,
+			});
+			console.log(`✅ Report written to ${options.output}`);
+		} else if (options.provider) {
+			rows.forEach((row) => console.log(`${row.domain}\t${row.nameserver}`));
+		} else {
+			domains.forEach((domain) => console.log(domain));
+		}
+	} finally {
+		await storage.close();
+	}
+}
@@ -0,0 +1,41 @@
+import { createStorage } from "../storage/storage.mts";
+import { FileWriter } from "../utils/file-writer.mts";
+import { toALabel } from "../utils/idn.mts";
+import { parseAsOfDate } from "../utils/tld-history.mts";
+
+interface HistoryOptions {
+	date: string;
+	tld?: string;
+	output?: string;
+}
+
+export async function runHistory(options: HistoryOptions): Promise<void> {
+	const asOf = parseAsOfDate(options.date);
+	const storage = createStorage();
+	await storage.open();
+
+	try {
+		const rows = await storage.getRootZoneAsOf(
+			asOf,
+			options.tld ? toALabel(options.tld) : undefined,
+		);
+		console.log(`📜 Root zone as of ${asOf.toISOString()}: ${rows.length} TLDs`);
+
+		if (options.output) {
+			FileWriter.writeJson(options.output, { asOf, tlds: rows });
+			console.log(`✅ Report written to ${options.output}`);
+		} else {
+			console.table(
+				rows.map((row) => ({
+					domain: `.${row.domain}`,
+					type: row.type,
+					manager: row.tldManager,
+					dnssec: row.dnssec ? "Yes" : "No",
+					since: row.validFrom.toISOString().slice(0, 10),
+				})),
+			);
+		}
+	} finally {
+		await storage.close();
+	}
+}
@@ -0,0 +1,30 @@
+import { createStorage } from "../storage/storage.mts";
+
+export async function runMigrate(statusOnly: boolean): Promise<void> {
+	const storage = createStorage();
+	await storage.connect();
+
+	try {
+		const migrator = storage.migrator();
+
+		if (statusOnly) {
+			const status = await migrator.status();
+			status.forEach(({ version, name, appliedAt }) => {
+				const state = appliedAt ? `applied ${appliedAt.toISOString()}` : "pending";
+				console.log(`  ${String(version).padStart(3, "0")} ${name.padEnd(30)} ${state}`);
+			});
+			const pending = status.filter((m) => !m.appliedAt).length;
+			console.log(`\n📋 ${status.length - pending} applied, ${pending} pending`);
+			return;
+		}
+
+		const applied = await migrator.migrate();
+		console.log(
+			applied.length > 0
+				? `\n✅ Applied ${applied.length} migrations`
+				: "\n✅ Database schema already up to date",
+		);
+	} finally {
+		await storage.close();
+	}
+}
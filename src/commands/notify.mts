@@ -0,0 +1,39 @@
+import fs from "fs";
+import { getNotificationConfig, notifyChanges } from "../notifications/notifier.mts";
+import { eventsFromChanges } from "../notifications/rules.mts";
+import type { RootZoneChange } from "../utils/changelog.mts";
+
+const CHANGES_PATH = "./data/root-zone/changes.json";
+
+interface NotifyOptions {
+	changes?: string;
+	dryRun: boolean;
+}
+
+/**
+ * Sends the changes of the latest root zone run again, to try out a
+ * notification config without waiting for the root zone to change.
+ */
+export async function runNotify(options: NotifyOptions): Promise<void> {
+	const filePath = options.changes ?? CHANGES_PATH;
+	if (!fs.existsSync(filePath)) {
+		throw new Error(`No root zone changes found at ${filePath}`);
+	}
+	const changes = JSON.parse(fs.readFileSync(filePath, "utf-8")) as RootZoneChange[];
+
+	const events = eventsFromChanges(changes);
+	console.log(`🔔 ${events.length} notification events from ${changes.length} changes`);
+
+	if (options.dryRun) {
+		console.log(JSON.stringify(events, null, 2));
+		return;
+	}
+	if (!getNotificationConfig()) {
+		throw new Error("No notification config, set --notifications or NOTIFICATIONS_CONFIG");
+	}
+
+	const failed = await notifyChanges(changes);
+	if (failed > 0) {
+		throw new Error(`${failed} notifications could not be delivered`);
+	}
+}
@@ -0,0 +1,59 @@
+import fs from "fs";
+import net from "net";
+import { IANA_RDAP_BOOTSTRAP_URL, loadRdapBootstrap, lookupDomain } from "../utils/rdap.mts";
+import {
+	findAsnRdapUrls,
+	findIpRdapUrls,
+	loadBootstrapRegistry,
+} from "../utils/rdap-bootstrap.mts";
+
+const LOCAL_BOOTSTRAP = "./data/root-zone/rdap.json";
+const LOCAL_REGISTRY_DIR = "./data/rdap-bootstrap";
+
+interface RdapOptions {
+	domain: string;
+	bootstrap?: string;
+	follow: boolean;
+}
+
+export async function runRdap(options: RdapOptions): Promise<void> {
+	const query = options.domain.trim();
+	const asn = query.match(/^(?:AS)?(\d+)$/i);
+
+	if (net.isIP(query) || asn) {
+		console.log(JSON.stringify(await resolveNumberResource(query, asn), null, 2));
+		return;
+	}
+
+	// Prefer the published snapshot, it saves a request to IANA
+	const bootstrap =
+		options.bootstrap ??
+		(fs.existsSync(LOCAL_BOOTSTRAP) ? LOCAL_BOOTSTRAP : IANA_RDAP_BOOTSTRAP_URL);
+
+	const rdapMap = await loadRdapBootstrap(bootstrap);
+	const info = await lookupDomain(query, rdapMap, {
+		followReferrals: options.follow,
+	});
+	console.log(JSON.stringify(info, null, 2));
+}
+
+async function resolveNumberResource(query: string, asn: RegExpMatchArray | null) {
+	if (asn) {
+		const registry = await loadBootstrapRegistry("asn", LOCAL_REGISTRY_DIR);
+		const urls = findAsnRdapUrls(parseInt(asn[1], 10), registry);
+		if (!urls) throw new Error(`No RDAP service found for AS${asn[1]}`);
+		return { query: `AS${asn[1]}`, rdap: urls, url: `${withSlash(urls[0])}autnum/${asn[1]}` };
+	}
+
+	const registry = await loadBootstrapRegistry(
+		net.isIPv4(query) ? "ipv4" : "ipv6",
+		LOCAL_REGISTRY_DIR,
+	);
+	const urls = findIpRdapUrls(query, registry);
+	if (!urls) throw new Error(`No RDAP service found for ${query}`);
+	return { query, rdap: urls, url: `${withSlash(urls[0])}ip/${query}` };
+}
+
+function withSlash(url: string): string {
+	return url.endsWith("/") ? url : `${url}/`;
+}
@@ -0,0 +1,44 @@
+import { createApiServer } from "../server/api-server.mts";
+import type { DataBackend } from "../server/backend.mts";
+import { DatabaseBackend } from "../server/database-backend.mts";
+import { FileBackend } from "../server/file-backend.mts";
+import { SqliteBackend } from "../server/sqlite-backend.mts";
+import { sqliteFilePath } from "../storage/storage.mts";
+import { Database } from "../utils/database.mts";
+
+interface ServeOptions {
+	port: number;
+	backend: string;
+}
+
+export async function runServe(options: ServeOptions): Promise<void> {
+	let backend: DataBackend;
+	if (options.backend === "database") {
+		backend = await openDatabaseBackend();
+	} else {
+		backend = new FileBackend();
+	}
+
+	const server = createApiServer(backend);
+	await new Promise<void>((resolve) => server.listen(options.port, resolve));
+	console.log(`🌐 Serving ${options.backend} data on http://localhost:${options.port}`);
+
+	// Keep running until interrupted, then shut down cleanly
+	await new Promise<void>((resolve) => {
+		const stop = () => server.close(() => resolve());
+		process.once("SIGINT", stop);
+		process.once("SIGTERM", stop);
+	});
+	await backend.close();
+	console.log("👋 Server stopped");
+}
+
+// Same DATABASE_URL schemes as the storage the jobs write to
+async function openDatabaseBackend(): Promise<DataBackend> {
+	const sqlitePath = sqliteFilePath(process.env.DATABASE_URL ?? "");
+	if (sqlitePath) return new SqliteBackend(sqlitePath);
+
+	const db = new Database();
+	await db.connect();
+	return new DatabaseBackend(db);
+}
@@ -0,0 +1,76 @@
+import http from "http";
+import {
+	ID_HEADER,
+	SIGNATURE_HEADER,
+	TIMESTAMP_HEADER,
+	verifySignature,
+} from "../notifications/webhook.mts";
+
+interface WebhookReceiverOptions {
+	port: number;
+	secret?: string;
+	/** Answer this many requests with a 503 first, to exercise retries */
+	fail: number;
+}
+
+/**
+ * A stand-in webhook endpoint that prints what it receives and checks the
+ * signature, for testing a notification config locally.
+ */
+export async function runWebhookReceiver(options: WebhookReceiverOptions): Promise<void> {
+	let failuresLeft = options.fail;
+
+	const server = http.createServer((req, res) => {
+		const chunks: Buffer[] = [];
+		req.on("data", (chunk: Buffer) => chunks.push(chunk));
+		req.on("end", () => {
+			const body = Buffer.concat(chunks).toString("utf-8");
+			const id = req.headers[ID_HEADER.toLowerCase()] ?? "(no id)";
+
+			if (failuresLeft > 0) {
+				failuresLeft--;
+				console.log(`↩️ ${req.method} ${req.url} ${id}: answering 503 (${failuresLeft} failures left)`);
+				res.writeHead(503, { "Retry-After": "1" });
+				res.end();
+				return;
+			}
+
+			if (options.secret) {
+				const valid = verifySignature(
+					options.secret,
+					body,
+					req.headers[TIMESTAMP_HEADER.toLowerCase()] as string | undefined,
+					req.headers[SIGNATURE_HEADER.toLowerCase()] as string | undefined,
+				);
+				if (!valid) {
+					console.log(`❌ ${req.method} ${req.url} ${id}: invalid signature`);
+					res.writeHead(401);
+					res.end();
+					return;
+				}
+			}
+
+			console.log(
+				`📨 ${req.method} ${req.url} ${id}${options.secret ? " (signature valid)" : ""}`,
+			);
+			try {
+				console.log(JSON.stringify(JSON.parse(body), null, 2));
+			} catch {
+				console.log(body);
+			}
+			res.writeHead(204);
+			res.end();
+		});
+	});
+
+	await new Promise<void>((resolve) => server.listen(options.port, resolve));
+	console.log(`🪝 Receiving webhooks on http://localhost:${options.port}`);
+
+	// Keep running until interrupted, then shut down cleanly
+	await new Promise<void>((resolve) => {
+		const stop = () => server.close(() => resolve());
+		process.once("SIGINT", stop);
+		process.once("SIGTERM", stop);
+	});
+	console.log("👋 Receiver stopped");
+}
@@ -3,20 +3,213 @@
 import "dotenv/config";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
+import { runDomainsByNs } from "./commands/domains-by-ns.mts";
+import { runHistory } from "./commands/history.mts";
+import { runMigrate } from "./commands/migrate.mts";
+import { runNotify } from "./commands/notify.mts";
+import { runRdap } from "./commands/rdap.mts";
+import { runServe } from "./commands/serve.mts";
+import { runWebhookReceiver } from "./commands/webhook-receiver.mts";
 import { processCentralizedZone } from "./jobs/centralized-zone.mts";
+import { processPublicSuffix } from "./jobs/public-suffix.mts";
+import { processRdapBootstrap } from "./jobs/rdap-bootstrap.mts";
 import { processRootZone } from "./jobs/root-zone.mts";
+import { configureNotifications } from "./notifications/notifier.mts";
+import { createStorage, type Storage } from "./storage/storage.mts";
 import { Database } from "./utils/database.mts";
+import { configureRetryPolicy } from "./utils/fetcher.mts";
+import { configureHttpCache } from "./utils/http-cache.mts";
+import { pushMetrics, writeMetricsFile } from "./utils/metrics.mts";
+import { configureFormats, getFormats } from "./utils/output-writer.mts";
+import {
+	finishRunReport,
+	runJob,
+	saveRunReport,
+	startRunReport,
+	type RunReport,
+} from "./utils/run-report.mts";
+import { configureSource } from "./utils/source.mts";
 
 interface CliArgs {
 	job?: string;
 	save?: string;
+	source?: string;
+	record?: boolean;
+	status?: boolean;
+	date?: string;
+	tld?: string;
+	output?: string;
+	port?: number;
+	backend?: string;
+	domain?: string;
+	bootstrap?: string;
+	follow?: boolean;
+	force?: boolean;
+	formats?: string;
+	cache?: boolean;
+	retries?: number;
+	timeout?: number;
+	hostConcurrency?: number;
+	resume?: boolean;
+	retryFailed?: boolean;
+	tlds?: string;
+	nameserver?: string;
+	provider?: boolean;
+	maxFailureRate?: number;
+	metricsFile?: string;
+	pushgateway?: string;
+	notifications?: string;
+	changes?: string;
+	dryRun?: boolean;
+	secret?: string;
+	fail?: number;
 }
 
+// Subcommands besides the default job run
+const commands: Record<string, (args: CliArgs) => Promise<void>> = {
+	migrate: (args) => runMigrate(args.status ?? false),
+	history: (args) =>
+		runHistory({ date: args.date!, tld: args.tld, output: args.output }),
+	serve: (args) =>
+		runServe({ port: args.port ?? 3000, backend: args.backend ?? "files" }),
+	rdap: (args) =>
+		runRdap({
+			domain: args.domain!,
+			bootstrap: args.bootstrap,
+			follow: args.follow ?? true,
+		}),
+	"domains-by-ns": (args) =>
+		runDomainsByNs({
+			nameserver: args.nameserver!,
+			provider: args.provider ?? false,
+			tld: args.tld,
+			output: args.output,
+		}),
+	notify: (args) =>
+		runNotify({ changes: args.changes, dryRun: args.dryRun ?? false }),
+	"webhook-receiver": (args) =>
+		runWebhookReceiver({
+			port: args.port ?? 8787,
+			secret: args.secret,
+			fail: args.fail ?? 0,
+		}),
+};
+
 async function main() {
 	const argv = await yargs(hideBin(process.argv))
+		.command("migrate", "Apply pending database schema migrations", (y) =>
+			y.option("status", {
+				type: "boolean",
+				default: false,
+				description: "List applied and pending migrations without applying",
+			}),
+		)
+		.command("history", "Show the root zone as recorded on a given date", (y) =>
+			y
+				.option("date", {
+					type: "string",
+					demandOption: true,
+					description: "Point in time (YYYY-MM-DD or ISO timestamp)",
+				})
+				.option("tld", {
+					type: "string",
+					description: "Only show this TLD",
+				})
+				.option("output", {
+					type: "string",
+					description: "Write the result as JSON to this file",
+				}),
+		)
+		.command("serve", "Serve the datasets over a read-only HTTP API", (y) =>
+			y
+				.option("port", {
+					type: "number",
+					default: parseInt(process.env.PORT || "3000", 10),
+					description: "Port to listen on",
+				})
+				.option("backend", {
+					type: "string",
+					choices: ["files", "database"],
+					default: "files",
+					description: "Serve the generated data files or the database",
+				}),
+		)
+		.command("rdap <domain>", "Look up a domain, IP address or AS number over RDAP", (y) =>
+			y
+				.positional("domain", {
+					type: "string",
+					description: "Domain name, IP address or AS number (e.g. AS15169)",
+				})
+				.option("bootstrap", {
+					type: "string",
+					description: "Bootstrap registry file or URL (defaults to the local snapshot)",
+				})
+				.option("follow", {
+					type: "boolean",
+					default: true,
+					description: "Follow referrals to the registrar RDAP server",
+				}),
+		)
+		.command(
+			"domains-by-ns <nameserver>",
+			"List the domains delegated to a nameserver in the imported zone files",
+			(y) =>
+				y
+					.positional("nameserver", {
+						type: "string",
+						description: "Nameserver host, or a provider's domain with --provider",
+					})
+					.option("provider", {
+						type: "boolean",
+						default: false,
+						description: "Match every nameserver of a DNS provider, e.g. cloudflare.com",
+					})
+					.option("tld", {
+						type: "string",
+						description: "Only search this TLD's zone",
+					})
+					.option("output", {
+						type: "string",
+						description: "Write the result as JSON to this file",
+					}),
+		)
+		.command("notify", "Send the latest root zone changes to the notification destinations", (y) =>
+			y
+				.option("changes", {
+					type: "string",
+					description: "Changelog to send (defaults to data/root-zone/changes.json)",
+				})
+				.option("dry-run", {
+					type: "boolean",
+					default: false,
+					description: "Print the notification events without sending them",
+				}),
+		)
+		.command("webhook-receiver", "Run a local stand-in webhook endpoint for testing notifications", (y) =>
+			y
+				.option("port", {
+					type: "number",
+					default: 8787,
+					description: "Port to listen on",
+				})
+				.option("secret", {
+					type: "string",
+					description: "Reject requests without a valid signature for this secret",
+				})
+				.option("fail", {
+					type: "number",
+					default: 0,
+					description: "Answer this many requests with a 503 first, to test retries",
+				}),
+		)
 		.option("job", {
 			type: "string",
-			choices: ["root-zone", "centralized-zone"],
+			choices: [
+				"root-zone",
+				"rdap-bootstrap",
+				"public-suffix",
+				"centralized-zone",
+			],
 			description: "Which job to run",
 		})
 		.option("save", {
@@ -24,9 +217,97 @@ async function main() {
 			choices: ["local", "remote"],
 			description: "Where to save results",
 		})
+		.option("source", {
+			type: "string",
+			default: "live",
+			description: 'Where to read upstream data from: "live" or "fixtures:<dir>"',
+		})
+		.option("force", {
+			type: "boolean",
+			default: false,
+			description: "Publish root zone data even when validation fails",
+		})
+		.option("record", {
+			type: "boolean",
+			default: false,
+			description: "Record live responses into the fixtures directory",
+		})
+		.option("cache", {
+			type: "boolean",
+			default: true,
+			description: "Send conditional requests and skip unchanged sources (--no-cache to disable)",
+		})
+		.option("resume", {
+			type: "boolean",
+			default: false,
+			description: "Centralized zone: only process TLDs the last run did not complete",
+		})
+		.option("retry-failed", {
+			type: "boolean",
+			default: false,
+			description: "Centralized zone: only process TLDs whose last attempt failed",
+		})
+		.option("tlds", {
+			type: "string",
+			description: "Centralized zone: comma-separated TLDs to process, e.g. com,net",
+		})
+		.option("retries", {
+			type: "number",
+			description: "Retries per request (default: FETCH_MAX_RETRIES or 3)",
+		})
+		.option("timeout", {
+			type: "number",
+			description: "Abort a request after this many ms without data (default: FETCH_TIMEOUT_MS or 60000)",
+		})
+		.option("host-concurrency", {
+			type: "number",
+			description: "Requests in flight per host (default: FETCH_HOST_CONCURRENCY or 8)",
+		})
+		.option("max-failure-rate", {
+			type: "number",
+			description:
+				"Exit with code 2 when a job fails more than this share of its TLDs (default: RUN_MAX_FAILURE_RATE or 0.1)",
+		})
+		.option("metrics-file", {
+			type: "string",
+			description: "Write Prometheus metrics for the textfile collector (default: METRICS_FILE)",
+		})
+		.option("pushgateway", {
+			type: "string",
+			description: "Push Prometheus metrics to this Pushgateway URL (default: METRICS_PUSHGATEWAY_URL)",
+		})
+		.option("notifications", {
+			type: "string",
+			description: "Notification config file (default: NOTIFICATIONS_CONFIG)",
+		})
+		.option("formats", {
+			type: "string",
+			description:
+				"Comma-separated output formats: json, csv, ndjson, yaml, sqlite (default: OUTPUT_FORMATS or json,csv)",
+		})
 		.parse();
 
 	const args: CliArgs = argv;
+	const [command] = argv._;
+
+	const handler = command ? commands[String(command)] : undefined;
+	if (handler) {
+		try {
+			configureRetryPolicy({
+				maxRetries: args.retries,
+				timeoutMs: args.timeout,
+				hostConcurrency: args.hostConcurrency,
+			});
+			configureSource(args.source, args.record);
+			configureNotifications(args.notifications);
+			await handler(args);
+		} catch (error) {
+			console.error("\n❌ Error:", error);
+			process.exit(1);
+		}
+		return;
+	}
+
 	const saveLocal = args.save === "local";
 	const saveRemote = args.save !== "local" && Database.hasConfig();
 
@@ -35,33 +316,113 @@ async function main() {
 		`📊 Mode: ${saveLocal ? "Local only" : saveRemote ? "Remote + Local" : "Local only"}`,
 	);
 	console.log(`🔧 Jobs: ${args.job || "All"}`);
+	console.log(`📡 Source: ${args.source}${args.record ? " (recording)" : ""}`);
+
+	startRunReport({
+		source: args.source!,
+		mode: saveRemote ? "remote" : "local",
+		maxFailureRate: args.maxFailureRate,
+	});
+	let storage: Storage | null = null;
+	let runError: unknown;
 
 	try {
-		// Initialize database if remote saving is enabled
-		const db = saveRemote ? new Database() : null;
-		if (db) {
-			await db.connect();
+		configureRetryPolicy({
+			maxRetries: args.retries,
+			timeoutMs: args.timeout,
+			hostConcurrency: args.hostConcurrency,
+		});
+		configureSource(args.source, args.record);
+		configureFormats(args.formats?.split(","));
+		configureHttpCache(args.cache ?? true);
+		configureNotifications(args.notifications);
+		console.log(`🗂️ Formats: ${getFormats().join(", ")}`);
+
+		// Open the storage backend if remote saving is enabled
+		storage = saveRemote ? createStorage() : null;
+		if (storage) {
+			await storage.open();
 		}
 
 		// Process jobs based on arguments
 		if (!args.job || args.job === "root-zone") {
 			console.log("\n=== Processing Root Zone ===");
-			await processRootZone(db);
+			await runJob("root-zone", () =>
+				processRootZone(storage, { force: args.force }),
+			);
 		}
 
-		if (!args.job || args.job === "centralized-zone") {
-			console.log("\n=== Processing Centralized Zone ===");
-			await processCentralizedZone(db);
+		if (!args.job || args.job === "rdap-bootstrap") {
+			console.log("\n=== Processing RDAP Bootstrap ===");
+			await runJob("rdap-bootstrap", () => processRdapBootstrap());
 		}
 
-		if (db) {
-			await db.disconnect();
+		if (!args.job || args.job === "public-suffix") {
+			console.log("\n=== Processing Public Suffix List ===");
+			await runJob("public-suffix", () => processPublicSuffix());
 		}
 
-		console.log("\n✅ All jobs completed successfully!");
+		if (!args.job || args.job === "centralized-zone") {
+			console.log("\n=== Processing Centralized Zone ===");
+			await runJob("centralized-zone", () =>
+				processCentralizedZone(storage, {
+					resume: args.resume,
+					retryFailed: args.retryFailed,
+					tlds: args.tlds?.split(",").map((tld) => tld.trim().toLowerCase()),
+				}),
+			);
+		}
 	} catch (error) {
 		console.error("\n❌ Error:", error);
-		process.exit(1);
+		runError = error;
+	}
+
+	const report = finishRunReport(runError);
+	await saveRun(report, storage, args);
+	if (storage) {
+		await storage.close();
+	}
+
+	report.jobs
+		.filter((job) => job.failureRate > report.maxFailureRate)
+		.forEach((job) => {
+			console.error(
+				`\n❌ ${job.job}: ${job.tlds.failed} TLDs failed (${(job.failureRate * 100).toFixed(1)}%), above the ${report.maxFailureRate * 100}% threshold`,
+			);
+		});
+
+	if (report.exitCode !== 0) {
+		process.exit(report.exitCode);
+	}
+	console.log("\n✅ All jobs completed successfully!");
+}
+
+// A report that cannot be saved is logged, it does not change the exit code
+async function saveRun(
+	report: RunReport,
+	storage: Storage | null,
+	args: CliArgs,
+): Promise<void> {
+	const metricsFile = args.metricsFile ?? process.env.METRICS_FILE;
+	const pushgateway = args.pushgateway ?? process.env.METRICS_PUSHGATEWAY_URL;
+
+	try {
+		const filePath = saveRunReport(report);
+		console.log(`\n🧾 Run report written to ${filePath}`);
+
+		if (storage) {
+			await storage.recordRun(report);
+		}
+		if (metricsFile) {
+			writeMetricsFile(metricsFile, report);
+			console.log(`📈 Metrics written to ${metricsFile}`);
+		}
+		if (pushgateway) {
+			await pushMetrics(pushgateway, report);
+			console.log(`📈 Metrics pushed to ${pushgateway}`);
+		}
+	} catch (error) {
+		console.error("❌ Failed to save the run report:", error);
 	}
 }
 
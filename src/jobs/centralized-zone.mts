@@ -1,18 +1,70 @@
 import fs from "fs";
 import { jwtDecode } from "jwt-decode";
 import path from "path";
-import zlib from "zlib";
-import type { Database } from "../utils/database.mts";
-import { fetchWithRetry, sleep } from "../utils/fetcher.mts";
+import type { Storage, ZoneImportResult } from "../storage/storage.mts";
+import { processInBatches } from "../utils/concurrency.mts";
+import {
+	diffDomainFiles,
+	saveDomainFeed,
+	saveFeedSummary,
+	type DomainDiff,
+	type DomainFeedSummary,
+} from "../utils/domain-diff.mts";
 import { FileWriter } from "../utils/file-writer.mts";
+import { commitHttpCache } from "../utils/http-cache.mts";
+import { publish, type Publication, type PublicationOptions } from "../utils/publisher.mts";
+import {
+	createRegistrableDomainLookup,
+	fetchPublicSuffixList,
+	type PublicSuffixRule,
+} from "../utils/public-suffix.mts";
+import { recordTld, recordWrites } from "../utils/run-report.mts";
+import { fetchFromSource, getSource } from "../utils/source.mts";
+import {
+	FileZoneStateStore,
+	StorageZoneStateStore,
+	ZoneRun,
+	type ZoneRunOptions,
+	type ZoneStateStore,
+} from "../utils/zone-state.mts";
+import {
+	loadZoneStats,
+	saveZoneStats,
+	ZoneStatsCollector,
+	type ZoneStats,
+} from "../utils/zone-stats.mts";
+import {
+	createFileSink,
+	streamZoneDomains,
+	type ZoneStreamStats,
+} from "../utils/zone-stream.mts";
 
 const AUTH_URL = "https://account-api.icann.org/api/authenticate";
 const DOWNLOAD_LINKS_URL = "https://czds-api.icann.org/czds/downloads/links";
 const DATA_DIR = "./data/centralized-zone";
+const STATE_FILE = `${DATA_DIR}/state.json`;
+const STATS_FILE = `${DATA_DIR}/zone-stats.json`;
+
+// Zone files and run state are written in place as the run goes, only the
+// feeds and stats are published
+const PUBLICATION_OPTIONS: PublicationOptions = {
+	exclude: (name) => /\.(txt|prev|tmp)$/.test(name) || name === path.basename(STATE_FILE),
+};
+
+// The database and local stages keep separate cache state, both may run
+const DATABASE_CACHE_CONSUMER = "centralized-zone:database";
+const LOCAL_CACHE_CONSUMER = "centralized-zone:local";
 
 // Concurrency limit to prevent overwhelming the API or system resources
 const CONCURRENCY_LIMIT = parseInt(process.env.CONCURRENCY_LIMIT || "10", 10);
 
+
+interface ZoneFileStats extends ZoneStreamStats {
+	unchanged: boolean;
+	diff: DomainDiff | null;
+	zoneStats: ZoneStats | null;
+}
+
 interface TokenCache {
 	accessToken: string;
 	expiresAt: number;
@@ -21,7 +73,8 @@ interface TokenCache {
 let tokenCache: TokenCache | null = null;
 
 export async function processCentralizedZone(
-	db: Database | null = null,
+	storage: Storage | null = null,
+	options: ZoneRunOptions = {},
 ): Promise<void> {
 	console.log("Fetching centralized zone data...");
 
@@ -29,13 +82,16 @@ export async function processCentralizedZone(
 		const downloadLinks = await fetchDownloadLinks();
 		console.log(`Found ${downloadLinks.length} zone files to download`);
 
-		if (db) {
-			await processZoneFilesToDatabase(downloadLinks, db);
+		// Nameserver hosts are grouped into operators by registrable domain
+		const operatorOf = createRegistrableDomainLookup(await fetchOptionalPublicSuffixList());
+
+		if (storage) {
+			await processZoneFilesToDatabase(downloadLinks, storage, options, operatorOf);
 		}
 
 		// Only save files locally if no DB or explicitly requested
-		if (!db || process.env.SAVE_FILES === "true") {
-			await processZoneFilesToLocal(downloadLinks);
+		if (!storage || process.env.SAVE_FILES === "true") {
+			await processZoneFilesToLocal(downloadLinks, options, operatorOf);
 		}
 	} catch (error) {
 		console.error("Error processing centralized zone:", error);
@@ -43,9 +99,23 @@ export async function processCentralizedZone(
 	}
 }
 
+// Without the PSL every host is grouped by its last two labels, an outage
+// must not block the zone imports
+async function fetchOptionalPublicSuffixList(): Promise<PublicSuffixRule[]> {
+	try {
+		return await fetchPublicSuffixList();
+	} catch (error) {
+		console.warn(
+			"⚠️ Could not fetch the Public Suffix List, grouping operators by their last two labels:",
+			(error as Error).message,
+		);
+		return [];
+	}
+}
+
 async function fetchDownloadLinks(): Promise<string[]> {
 	const token = await getValidToken();
-	const response = await fetchWithRetry(DOWNLOAD_LINKS_URL, {
+	const response = await fetchFromSource(DOWNLOAD_LINKS_URL, {
 		headers: {
 			Authorization: `Bearer ${token}`,
 			"Content-Type": "application/json",
@@ -61,13 +131,18 @@ async function fetchDownloadLinks(): Promise<string[]> {
 }
 
 async function getValidToken(): Promise<string> {
+	// Recorded fixtures are served without authentication
+	if (getSource().offline) {
+		return "offline";
+	}
+
 	// Check cache first
 	if (tokenCache && !isTokenExpired(tokenCache.accessToken)) {
 		return tokenCache.accessToken;
 	}
 
 	// Get new token
-	const response = await fetchWithRetry(AUTH_URL, {
+	const response = await fetchFromSource(AUTH_URL, {
 		method: "POST",
 		headers: { "Content-Type": "application/json" },
 		body: JSON.stringify({
@@ -94,50 +169,51 @@ function isTokenExpired(token: string): boolean {
 	}
 }
 
-// Utility function to process items in batches with concurrency control
-async function processInBatches<T, R>(
-	items: T[],
-	processor: (item: T) => Promise<R>,
-	batchSize: number,
-	delayBetweenBatches: number = 0
-): Promise<R[]> {
-	const results: R[] = [];
-	
-	for (let i = 0; i < items.length; i += batchSize) {
-		const batch = items.slice(i, i + batchSize);
-		const batchResults = await Promise.all(batch.map(processor));
-		results.push(...batchResults);
-		
-		// Add delay between batches if specified
-		if (delayBetweenBatches > 0 && i + batchSize < items.length) {
-			await sleep(delayBetweenBatches);
-		}
-	}
-	
-	return results;
-}
-
 async function processZoneFilesToDatabase(
 	downloadLinks: string[],
-	db: Database,
+	storage: Storage,
+	options: ZoneRunOptions,
+	operatorOf: (host: string) => string,
 ): Promise<void> {
 	console.log("Processing zone files to database...");
-	await db.initializeTables();
+
+	const run = await startRun(new StorageZoneStateStore(storage), downloadLinks, options);
+	const zoneStats = loadZoneStats(STATS_FILE);
 
 	// Process files in parallel with concurrency control
 	const results = await processInBatches(
-		downloadLinks,
+		selectLinks(downloadLinks, run),
 		async (url: string) => {
-			const filename = path.basename(url);
-			const tld = filename.split(".")[0];
+			const tld = tldFromLink(url);
 			
 			try {
 				console.log(`Processing: ${tld}`);
-				const result = await downloadAndProcessZone(url, tld, db);
-				console.log(`  ✅ ${result.domainCount} domains processed for ${tld}`);
+				await run.begin(tld);
+				const result = await downloadAndProcessZone(
+					url,
+					tld,
+					storage,
+					previousHash(run, zoneStats, tld),
+					operatorOf,
+				);
+				commitHttpCache(DATABASE_CACHE_CONSUMER, [url]);
+				await run.succeed(tld, result?.sha256 ?? null, !result || result.unchanged);
+				if (!result || result.unchanged) {
+					console.log(`  ⏭️ ${tld} zone unchanged since last import, skipping`);
+					recordTld(tld, "unchanged");
+					return { success: true, tld, unchanged: true };
+				}
+				console.log(
+					`  ✅ ${result.stats.domainCount} domains processed for ${tld} (+${result.addedCount} new, -${result.droppedCount} dropped)`,
+				);
+				recordTld(tld, "succeeded");
+				recordWrites("database", result.stats.domainCount);
+				zoneStats.set(tld, result.stats);
 				return { success: true, tld, ...result };
 			} catch (error) {
 				console.error(`  ❌ Failed to process ${tld}:`, error);
+				recordTld(tld, "failed", error);
+				await run.fail(tld, error);
 				return { success: false, tld, error };
 			}
 		},
@@ -147,29 +223,57 @@ async function processZoneFilesToDatabase(
 
 	const successful = results.filter(r => r.success).length;
 	const failed = results.filter(r => !r.success).length;
-	console.log(`Completed: ${successful} successful, ${failed} failed`);
+	const unchanged = results.filter(r => "unchanged" in r && r.unchanged).length;
+	console.log(
+		`Completed: ${successful} successful (${unchanged} unchanged), ${failed} failed`,
+	);
+	await publishResults(results, zoneStats);
 }
 
-async function processZoneFilesToLocal(downloadLinks: string[]): Promise<void> {
+async function processZoneFilesToLocal(
+	downloadLinks: string[],
+	options: ZoneRunOptions,
+	operatorOf: (host: string) => string,
+): Promise<void> {
 	FileWriter.ensureDirectory(DATA_DIR);
 	console.log("Processing zone files to local storage...");
 
+	const run = await startRun(new FileZoneStateStore(STATE_FILE), downloadLinks, options);
+	const zoneStats = loadZoneStats(STATS_FILE);
+
 	// Process files in parallel with concurrency control
 	const results = await processInBatches(
-		downloadLinks,
+		selectLinks(downloadLinks, run),
 		async (url: string) => {
-			const filename = path.basename(url);
-			const gzPath = path.join(DATA_DIR, filename);
-			const tld = filename.split(".")[0];
+			const tld = tldFromLink(url);
 			const txtPath = path.join(DATA_DIR, `${tld}.txt`);
 
 			try {
 				console.log(`Processing: ${tld}`);
-				await downloadFile(url, gzPath);
-				await extractAndProcessFile(gzPath, txtPath, tld);
-				return { success: true, tld };
+				await run.begin(tld);
+				const result = await downloadZoneToFile(
+					url,
+					tld,
+					txtPath,
+					previousHash(run, zoneStats, tld),
+					operatorOf,
+				);
+				commitHttpCache(LOCAL_CACHE_CONSUMER, [url]);
+				await run.succeed(tld, result?.sha256 ?? null, !result || result.unchanged);
+				if (!result || result.unchanged) {
+					console.log(`  ⏭️ ${tld} zone unchanged since last download, skipping`);
+					recordTld(tld, "unchanged");
+					return { success: true, tld, unchanged: true };
+				}
+				console.log(`  ✅ ${result.domainCount} domains saved for ${tld}`);
+				recordTld(tld, "succeeded");
+				recordWrites("files", result.domainCount);
+				if (result.zoneStats) zoneStats.set(tld, result.zoneStats);
+				return { success: true, tld, ...result };
 			} catch (error) {
 				console.error(`  ❌ Failed to process ${tld}:`, error);
+				recordTld(tld, "failed", error);
+				await run.fail(tld, error);
 				return { success: false, tld, error };
 			}
 		},
@@ -179,88 +283,161 @@ async function processZoneFilesToLocal(downloadLinks: string[]): Promise<void> {
 
 	const successful = results.filter(r => r.success).length;
 	const failed = results.filter(r => !r.success).length;
-	console.log(`Completed: ${successful} successful, ${failed} failed`);
+	const unchanged = results.filter(r => "unchanged" in r && r.unchanged).length;
+	console.log(
+		`Completed: ${successful} successful (${unchanged} unchanged), ${failed} failed`,
+	);
+	await publishResults(results, zoneStats);
 }
 
-async function downloadAndProcessZone(
-	url: string,
-	tld: string,
-	db: Database,
-): Promise<{ domainCount: number; fileSize: number }> {
-	const token = await getValidToken();
-	const response = await fetchWithRetry(url, {
-		headers: { Authorization: `Bearer ${token}` },
-	});
+async function startRun(
+	store: ZoneStateStore,
+	downloadLinks: string[],
+	options: ZoneRunOptions,
+): Promise<ZoneRun> {
+	const run = await ZoneRun.start(store, downloadLinks.map(tldFromLink), options);
+	const mode = options.retryFailed ? "retrying failed" : options.resume ? "resuming" : "starting";
+	console.log(`🔁 Run ${run.runId}: ${mode} with ${run.tlds.length} TLDs`);
+	return run;
+}
 
-	const buffer = await response.arrayBuffer();
-	const decompressed = zlib.gunzipSync(Buffer.from(buffer));
-	const content = decompressed.toString("utf-8");
-	const domains = new Set<string>();
+function selectLinks(downloadLinks: string[], run: ZoneRun): string[] {
+	const selected = new Set(run.tlds);
+	return downloadLinks.filter((url) => selected.has(tldFromLink(url)));
+}
 
-	content.split("\n").forEach((line) => {
-		if (!line.trim() || line.startsWith(";")) return;
-		const domain = extractDomainFromLine(line);
-		if (domain) domains.add(domain);
-	});
+function tldFromLink(url: string): string {
+	return path.basename(url).split(".")[0];
+}
 
-	// Save to database
-	const client = db.getClient();
-	const tldResult = await client.query(
-		"INSERT INTO tlds (domain, search_available, domain_count, zone_file_size) VALUES ($1, $2, $3, $4) ON CONFLICT (domain) DO UPDATE SET search_available = $2, domain_count = $3, zone_file_size = $4 RETURNING id",
-		[tld, true, domains.size, decompressed.length],
-	);
+// A TLD without published stats is imported in full even if unchanged
+function previousHash(
+	run: ZoneRun,
+	zoneStats: Map<string, ZoneStats>,
+	tld: string,
+): string | null {
+	return zoneStats.has(tld) ? run.previousHash(tld) : null;
+}
 
-	const tldId = tldResult.rows[0].id;
+// Feeds and stats are swapped in together once every TLD was processed
+async function publishResults(
+	results: { tld: string; diff?: DomainDiff | null }[],
+	zoneStats: Map<string, ZoneStats>,
+): Promise<void> {
+	await publish(
+		DATA_DIR,
+		(publication) => {
+			results.forEach((r) => {
+				if (r.diff) saveDomainFeed(publication.dir, r.tld, r.diff);
+			});
+			saveSummary(publication, results);
+			saveZoneStats(publication, zoneStats);
+		},
+		PUBLICATION_OPTIONS,
+	);
+}
 
-	// Bulk insert domains (simplified)
-	for (const domain of domains) {
-		await client.query(
-			"INSERT INTO zone_domains (tld_id, domain_name) VALUES ($1, $2) ON CONFLICT DO NOTHING",
-			[tldId, domain],
-		);
+function saveSummary(
+	publication: Publication,
+	results: { tld: string; diff?: DomainDiff | null }[],
+): void {
+	const summaries: DomainFeedSummary[] = results
+		.filter((r) => r.diff)
+		.map((r) => ({
+			tld: r.tld,
+			added: r.diff!.added.length,
+			removed: r.diff!.removed.length,
+		}));
+
+	if (summaries.length > 0) {
+		saveFeedSummary(publication, summaries);
 	}
-
-	return { domainCount: domains.size, fileSize: decompressed.length };
 }
 
-async function downloadFile(url: string, outputPath: string): Promise<void> {
+async function downloadAndProcessZone(
+	url: string,
+	tld: string,
+	storage: Storage,
+	previousHash: string | null,
+	operatorOf: (host: string) => string,
+): Promise<ZoneImportResult | null> {
 	const token = await getValidToken();
-	const response = await fetchWithRetry(url, {
-		headers: { Authorization: `Bearer ${token}` },
-	});
 
-	const buffer = await response.arrayBuffer();
-	fs.writeFileSync(outputPath, Buffer.from(buffer));
+	// The download only starts once the storage has a connection for it, a
+	// body left waiting in the queue would hit the idle timeout
+	return storage.importZone(tld, previousHash, async (writer) => {
+		const response = await fetchFromSource(url, {
+			headers: { Authorization: `Bearer ${token}` },
+			cache: "validators",
+			// Without a previous import there is nothing to keep on a 304
+			cacheConsumer: previousHash ? DATABASE_CACHE_CONSUMER : undefined,
+		});
+		if (response.status === 304) return null;
+
+		const collector = new ZoneStatsCollector(operatorOf);
+		const stats = await streamZoneDomains(
+			response.body,
+			(domain) => writer.domain(domain),
+			{
+				collector,
+				onDelegation: (domain, nameserver) =>
+					writer.nameserver(domain, nameserver, collector.operatorFor(nameserver)),
+			},
+		);
+		return { sha256: stats.sha256, stats: collector.summarize(tld, stats) };
+	});
 }
 
-async function extractAndProcessFile(
-	gzPath: string,
+async function downloadZoneToFile(
+	url: string,
+	tld: string,
 	txtPath: string,
-	_tld: string,
-): Promise<void> {
-	const buffer = fs.readFileSync(gzPath);
-	const decompressed = zlib.gunzipSync(buffer);
-	const content = decompressed.toString("utf-8");
-	const domains = new Set<string>();
-
-	content.split("\n").forEach((line) => {
-		if (!line.trim() || line.startsWith(";")) return;
-		const domain = extractDomainFromLine(line);
-		if (domain) domains.add(domain);
+	previousHash: string | null,
+	operatorOf: (host: string) => string,
+): Promise<ZoneFileStats | null> {
+	const token = await getValidToken();
+	const response = await fetchFromSource(url, {
+		headers: { Authorization: `Bearer ${token}` },
+		cache: "validators",
+		// Without the previous list there is nothing to keep on a 304
+		cacheConsumer: previousHash && fs.existsSync(txtPath) ? LOCAL_CACHE_CONSUMER : undefined,
 	});
+	if (response.status === 304) return null;
 
-	fs.writeFileSync(txtPath, Array.from(domains).sort().join("\n"));
-	fs.unlinkSync(gzPath);
-}
+	// Keep the previous run's list aside so the new one can be diffed against it
+	const previousPath = `${txtPath}.prev`;
+	const hasPrevious = fs.existsSync(txtPath);
+	if (hasPrevious) fs.renameSync(txtPath, previousPath);
 
-function extractDomainFromLine(line: string): string | null {
-	const parts = line.trim().split(/\s+/);
-	if (parts.length === 0) return null;
+	const sink = createFileSink(txtPath);
+	const collector = new ZoneStatsCollector(operatorOf);
+	let stats: ZoneStreamStats;
+	let unchanged: boolean;
+	try {
+		stats = await streamZoneDomains(
+			response.body,
+			(domain) => sink.write(domain),
+			{ collector },
+		);
+		unchanged = hasPrevious && stats.sha256 === previousHash;
+		if (!unchanged) await sink.close();
+	} catch (error) {
+		sink.abort();
+		if (hasPrevious) fs.renameSync(previousPath, txtPath);
+		throw error;
+	}
 
-	let domain = parts[0].toLowerCase();
-	if (domain.endsWith(".")) {
-		domain = domain.slice(0, -1);
+	// Same content as the last download, keep the existing list
+	if (unchanged) {
+		sink.abort();
+		fs.renameSync(previousPath, txtPath);
+		return { ...stats, unchanged, diff: null, zoneStats: null };
 	}
 
-	return domain && !domain.startsWith(";") ? domain : null;
+	const zoneStats = collector.summarize(tld, stats);
+	if (!hasPrevious) return { ...stats, unchanged: false, diff: null, zoneStats };
+
+	const diff = await diffDomainFiles(previousPath, txtPath);
+	fs.unlinkSync(previousPath);
+	return { ...stats, unchanged: false, diff, zoneStats };
 }
@@ -0,0 +1,126 @@
+import fs from "fs";
+import { commitHttpCache, isUnchanged } from "../utils/http-cache.mts";
+import { toALabel } from "../utils/idn.mts";
+import {
+	fetchPublicSuffixList,
+	PUBLIC_SUFFIX_LIST_URL,
+	tldsInSection,
+	type PublicSuffixRule,
+} from "../utils/public-suffix.mts";
+import { publish, type Publication } from "../utils/publisher.mts";
+import { fetchFromSource } from "../utils/source.mts";
+
+const IANA_TLD_LIST_URL = "https://data.iana.org/TLD/tlds-alpha-by-domain.txt";
+const CACHE_CONSUMER = "public-suffix";
+const DATA_DIR = "./data/public-suffix";
+
+type DiscrepancyKind =
+	| "missing-from-psl"
+	| "not-in-root-zone"
+	| "private-not-in-root-zone";
+
+interface Discrepancy {
+	tld: string;
+	kind: DiscrepancyKind;
+	rules: number;
+}
+
+export async function processPublicSuffix(): Promise<void> {
+	console.log("Fetching Public Suffix List...");
+
+	const [rules, rootTlds] = await Promise.all([
+		fetchPublicSuffixList(),
+		fetchRootZoneTlds(),
+	]);
+
+	const sources = [PUBLIC_SUFFIX_LIST_URL, IANA_TLD_LIST_URL];
+	const unchanged = sources.every((url) => isUnchanged(CACHE_CONSUMER, url));
+	if (unchanged && fs.existsSync(DATA_DIR)) {
+		console.log("⏭️ Public Suffix List and TLD list unchanged since last run, skipping");
+		return;
+	}
+
+	const icannCount = rules.filter((r) => r.section === "icann").length;
+	console.log(
+		`Fetched ${rules.length} PSL rules (${icannCount} ICANN, ${rules.length - icannCount} private), ${rootTlds.size} root zone TLDs`,
+	);
+
+	const discrepancies = findDiscrepancies(rules, rootTlds);
+	console.log(`🔎 ${discrepancies.length} discrepancies between the PSL and the root zone`);
+
+	await publish(DATA_DIR, (publication) =>
+		saveLocalFiles(publication, rules, discrepancies),
+	);
+	commitHttpCache(CACHE_CONSUMER, sources);
+}
+
+async function fetchRootZoneTlds(): Promise<Set<string>> {
+	const response = await fetchFromSource(IANA_TLD_LIST_URL, { cache: "body" });
+	const text = await response.text();
+	return new Set(
+		text
+			.split("\n")
+			.map((line) => line.trim())
+			.filter((line) => line && !line.startsWith("#"))
+			.map(toALabel),
+	);
+}
+
+function findDiscrepancies(
+	rules: PublicSuffixRule[],
+	rootTlds: Set<string>,
+): Discrepancy[] {
+	const icannTlds = tldsInSection(rules, "icann");
+	const privateTlds = tldsInSection(rules, "private");
+	const ruleCount = (tld: string) => rules.filter((r) => r.tld === tld).length;
+	const discrepancies: Discrepancy[] = [];
+
+	rootTlds.forEach((tld) => {
+		if (!icannTlds.has(tld)) {
+			discrepancies.push({ tld, kind: "missing-from-psl", rules: 0 });
+		}
+	});
+	icannTlds.forEach((tld) => {
+		if (!rootTlds.has(tld)) {
+			discrepancies.push({ tld, kind: "not-in-root-zone", rules: ruleCount(tld) });
+		}
+	});
+	privateTlds.forEach((tld) => {
+		if (!rootTlds.has(tld) && icannTlds.has(tld) === false) {
+			discrepancies.push({
+				tld,
+				kind: "private-not-in-root-zone",
+				rules: ruleCount(tld),
+			});
+		}
+	});
+
+	return discrepancies.sort(
+		(a, b) => a.kind.localeCompare(b.kind) || a.tld.localeCompare(b.tld),
+	);
+}
+
+function saveLocalFiles(
+	publication: Publication,
+	rules: PublicSuffixRule[],
+	discrepancies: Discrepancy[],
+): void {
+	publication.write([
+		{
+			name: "psl",
+			data: rules,
+			sources: [PUBLIC_SUFFIX_LIST_URL],
+			headers: ["Rule", "Suffix", "TLD", "Section", "Kind"],
+			rows: rules.map((r) => [r.rule, r.suffix, r.tld, r.section, r.kind]),
+		},
+		{
+			name: "discrepancies",
+			data: discrepancies,
+			sources: [PUBLIC_SUFFIX_LIST_URL, IANA_TLD_LIST_URL],
+			headers: ["TLD", "Discrepancy", "PSL Rules"],
+			rows: discrepancies.map((d) => [d.tld, d.kind, d.rules]),
+		},
+	]);
+
+	console.log("✅ Public Suffix List files saved locally");
+}
@@ -0,0 +1,77 @@
+import fs from "fs";
+import { commitHttpCache, isUnchanged } from "../utils/http-cache.mts";
+import { publish, type Publication } from "../utils/publisher.mts";
+import {
+	BOOTSTRAP_REGISTRIES,
+	bootstrapRegistryUrl,
+	fetchBootstrapRegistry,
+	IANA_RDAP_BASE_URL,
+	type BootstrapFile,
+	type BootstrapRegistry,
+} from "../utils/rdap-bootstrap.mts";
+
+const CACHE_CONSUMER = "rdap-bootstrap";
+const DATA_DIR = "./data/rdap-bootstrap";
+
+export async function processRdapBootstrap(): Promise<void> {
+	console.log("Fetching RDAP bootstrap registries...");
+
+	const registries = await Promise.all(
+		BOOTSTRAP_REGISTRIES.map(async (registry) => ({
+			registry,
+			data: await fetchBootstrapRegistry(registry),
+		})),
+	);
+
+	const urls = BOOTSTRAP_REGISTRIES.map(bootstrapRegistryUrl);
+	const unchanged = urls.every((url) => isUnchanged(CACHE_CONSUMER, url));
+	if (unchanged && fs.existsSync(DATA_DIR)) {
+		console.log("⏭️ RDAP bootstrap registries unchanged since last run, skipping");
+		return;
+	}
+
+	await publish(DATA_DIR, (publication) => {
+		registries.forEach(({ registry, data }) => {
+			console.log(`Fetched ${registry}: ${data.services.length} services`);
+			saveRegistry(publication, registry, data);
+		});
+	});
+
+	commitHttpCache(CACHE_CONSUMER, urls);
+	console.log("✅ RDAP bootstrap files saved locally");
+}
+
+function saveRegistry(
+	publication: Publication,
+	registry: BootstrapRegistry,
+	data: BootstrapFile,
+): void {
+	// object-tags entries carry a contact and tags ahead of the URLs
+	const table =
+		registry === "object-tags"
+			? {
+					headers: ["Contact", "Tags", "URLs"],
+					rows: data.services.map(([contacts, tags, urls]) => [
+						contacts.join(", "),
+						tags.join(", "),
+						urls.join(", "),
+					]),
+				}
+			: {
+					headers: [registry === "asn" ? "AS Ranges" : "Prefixes", "URLs"],
+					rows: data.services.map(([entries, urls]) => [
+						entries.join(", "),
+						urls.join(", "),
+					]),
+				};
+
+	publication.write([
+		{
+			name: registry,
+			data,
+			records: data.services,
+			sources: [`${IANA_RDAP_BASE_URL}/${registry}.json`],
+			...table,
+		},
+	]);
+}
@@ -1,11 +1,54 @@
 import * as cheerio from "cheerio";
-import type { Database } from "../utils/database.mts";
-import { fetchWithRetry } from "../utils/fetcher.mts";
-import { FileWriter } from "../utils/file-writer.mts";
+import fs from "fs";
+import { notifyChanges } from "../notifications/notifier.mts";
+import type { Storage, TldUpsert } from "../storage/storage.mts";
+import {
+	diffSnapshots,
+	loadSnapshot,
+	saveChanges,
+	type SnapshotRow,
+} from "../utils/changelog.mts";
+import { commitHttpCache, isUnchanged } from "../utils/http-cache.mts";
+import {
+	describeTld,
+	fetchIdnTables,
+	IANA_IDN_TABLES_URL,
+	toALabel,
+} from "../utils/idn.mts";
+import {
+	fetchPublicSuffixList,
+	PUBLIC_SUFFIX_LIST_URL,
+	tldsInSection,
+	type PublicSuffixRule,
+} from "../utils/public-suffix.mts";
+import { publish, type Publication } from "../utils/publisher.mts";
+import { createRdapMap, IANA_RDAP_BOOTSTRAP_URL } from "../utils/rdap.mts";
+import { recordTld, recordWrites } from "../utils/run-report.mts";
+import { fetchFromSource } from "../utils/source.mts";
+import { fetchTldDetails, type TldDetails } from "../utils/tld-details.mts";
+import { enforceValidation, getThresholds, validateRootZone } from "../utils/validator.mts";
+import { parseRootZone, type TldZoneRecords } from "../utils/zone-parser.mts";
+import { loadZoneStats, type ZoneStats } from "../utils/zone-stats.mts";
 
 const IANA_ROOT_ZONE_URL = "https://www.iana.org/domains/root/db";
-const IANA_RDAP_BOOTSTRAP_URL = "https://data.iana.org/rdap/dns.json";
 const INTERNIC_ROOT_ZONE_URL = "https://www.internic.net/domain/root.zone";
+const CACHE_CONSUMER = "root-zone";
+// Committed separately, a failed database save is retried on the next run
+const DATABASE_CACHE_CONSUMER = "root-zone:database";
+const DATA_DIR = "./data/root-zone";
+const VALIDATION_REPORT_PATH = "./reports/root-zone-validation.json";
+// Published by the centralized zone job
+const ZONE_STATS_PATH = "./data/centralized-zone/zone-stats.json";
+const ROOT_ZONE_SOURCES = [
+	IANA_ROOT_ZONE_URL,
+	IANA_RDAP_BOOTSTRAP_URL,
+	INTERNIC_ROOT_ZONE_URL,
+];
+const COMBINED_SOURCES = [
+	...ROOT_ZONE_SOURCES,
+	PUBLIC_SUFFIX_LIST_URL,
+	IANA_IDN_TABLES_URL,
+];
 
 interface TLDRow {
 	domain: string;
@@ -17,36 +60,128 @@ interface IanaRdapBootstrap {
 	services: any[][];
 }
 
+interface RootZoneOptions {
+	/** Publish even when validation fails */
+	force?: boolean;
+}
+
 export async function processRootZone(
-	db: Database | null = null,
+	storage: Storage | null = null,
+	options: RootZoneOptions = {},
 ): Promise<void> {
 	console.log("Fetching root zone data...");
 
-	const [tldRows, rdapServices, dnssecMap] = await Promise.all([
-		fetchTlds(),
-		fetchRdapBootstrap(),
-		fetchDnssecData(),
-	]);
+	const [tldRows, rdapServices, zoneRecords, pslRules, idnTables] =
+		await Promise.all([
+			fetchTlds(),
+			fetchRdapBootstrap(),
+			fetchRootZoneRecords(),
+			fetchOptionalPublicSuffixList(),
+			fetchIdnTables(),
+		]);
+
+	// Nothing upstream changed since the last successful run
+	if (
+		COMBINED_SOURCES.every((url) => isUnchanged(CACHE_CONSUMER, url)) &&
+		(!storage || COMBINED_SOURCES.every((url) => isUnchanged(DATABASE_CACHE_CONSUMER, url))) &&
+		fs.existsSync(`${DATA_DIR}/combined.json`) &&
+		!isNewer(ZONE_STATS_PATH, `${DATA_DIR}/combined.json`)
+	) {
+		console.log("⏭️ Root zone sources unchanged since last run, skipping");
+		return;
+	}
 
 	console.log(
-		`Fetched ${tldRows.length} TLDs, ${rdapServices.length} RDAP services`,
+		`Fetched ${tldRows.length} TLDs, ${rdapServices.length} RDAP services, ${zoneRecords.size} delegations`,
+	);
+
+	// Enrich TLDs with their IANA detail pages
+	const detailsMap = await fetchTldDetails(
+		tldRows.map((row) => toALabel(row.domain)),
 	);
 
 	// Merge data
 	const rdapMap = createRdapMap(rdapServices);
-	const combinedData = mergeData(tldRows, rdapMap, dnssecMap, db);
+	const dnssecMap = createDnssecMap(zoneRecords);
+	const previousData = rejoinLegacySnapshot(
+		loadSnapshot(`${DATA_DIR}/combined.json`),
+		rdapMap,
+		dnssecMap,
+	);
+	const combinedData = mergeData(
+		tldRows,
+		rdapMap,
+		dnssecMap,
+		detailsMap,
+		createPslFlags(tldRows, pslRules, previousData),
+		idnTables,
+		loadZoneStats(ZONE_STATS_PATH),
+	);
+
+	// Compare against the previous snapshot before it is overwritten
+	const changes = previousData ? diffSnapshots(previousData, combinedData) : [];
+
+	// Refuse to publish data that looks broken or truncated
+	const report = validateRootZone({
+		combinedData,
+		rdapTlds: Array.from(rdapMap.keys()),
+		delegatedTlds: Array.from(zoneRecords.keys()),
+		signedTlds: Array.from(dnssecMap.keys()),
+		rdapServiceCount: rdapServices.length,
+		previous: previousData,
+		changes,
+	});
+	enforceValidation(report, VALIDATION_REPORT_PATH, options.force ?? false);
+
+	// Stage every file and swap the directory in once all are written
+	await publish(DATA_DIR, (publication) => {
+		if (previousData) {
+			saveChanges(publication, changes, ROOT_ZONE_SOURCES);
+			console.log(`📝 ${changes.length} root zone changes since last snapshot`);
+		} else {
+			console.log("📝 No previous snapshot found, skipping changelog");
+		}
 
-	// Save files locally
-	saveLocalFiles(tldRows, rdapServices, dnssecMap, combinedData);
+		saveLocalFiles(
+			publication,
+			tldRows,
+			rdapServices,
+			dnssecMap,
+			zoneRecords,
+			combinedData,
+		);
+	});
 
 	// Save to database if available
-	if (db) {
-		await saveToDatabase(db, tldRows, rdapMap, dnssecMap, combinedData);
+	let databaseFailures = 0;
+	if (storage) {
+		databaseFailures = await saveToDatabase(
+			storage,
+			tldRows,
+			rdapMap,
+			dnssecMap,
+			zoneRecords,
+			detailsMap,
+			idnTables,
+		);
+	}
+
+	// Only changes that passed validation and were published are announced
+	await notifyChanges(changes);
+
+	// Without the PSL the psl flags were carried forward, so its version is
+	// not committed and the next run does not skip on it
+	const processedSources = pslRules
+		? COMBINED_SOURCES
+		: COMBINED_SOURCES.filter((url) => url !== PUBLIC_SUFFIX_LIST_URL);
+	commitHttpCache(CACHE_CONSUMER, processedSources);
+	if (storage && databaseFailures === 0) {
+		commitHttpCache(DATABASE_CACHE_CONSUMER, processedSources);
 	}
 }
 
 async function fetchTlds(): Promise<TLDRow[]> {
-	const response = await fetchWithRetry(IANA_ROOT_ZONE_URL);
+	const response = await fetchFromSource(IANA_ROOT_ZONE_URL, { cache: "body" });
 	const html = await response.text();
 	const $ = cheerio.load(html);
 	const rows: TLDRow[] = [];
@@ -64,122 +199,275 @@ async function fetchTlds(): Promise<TLDRow[]> {
 	return rows;
 }
 
+// The PSL only sets the psl flags, an outage must not block the root zone
+async function fetchOptionalPublicSuffixList(): Promise<PublicSuffixRule[] | null> {
+	try {
+		return await fetchPublicSuffixList();
+	} catch (error) {
+		console.warn("⚠️ Could not fetch the Public Suffix List:", (error as Error).message);
+		return null;
+	}
+}
+
 async function fetchRdapBootstrap(): Promise<any[][]> {
-	const response = await fetchWithRetry(IANA_RDAP_BOOTSTRAP_URL);
+	const response = await fetchFromSource(IANA_RDAP_BOOTSTRAP_URL, { cache: "body" });
 	const data: IanaRdapBootstrap = await response.json() as IanaRdapBootstrap;
 	return data.services;
 }
 
-async function fetchDnssecData(): Promise<Map<string, boolean>> {
-	const response = await fetchWithRetry(INTERNIC_ROOT_ZONE_URL);
+async function fetchRootZoneRecords(): Promise<Map<string, TldZoneRecords>> {
+	const response = await fetchFromSource(INTERNIC_ROOT_ZONE_URL, { cache: "body" });
 	const zoneData = await response.text();
-	const dnssecMap = new Map<string, boolean>();
+	return parseRootZone(zoneData);
+}
 
-	zoneData.split("\n").forEach((line) => {
-		if (!line.trim() || line.startsWith(";")) return;
+function isNewer(filePath: string, thanPath: string): boolean {
+	return (
+		fs.existsSync(filePath) &&
+		fs.statSync(filePath).mtimeMs > fs.statSync(thanPath).mtimeMs
+	);
+}
 
-		const parts = line.split(/\s+/).filter((part) => part !== "");
-		if (parts.length >= 4 && parts[3] === "DS" && parts[0].endsWith(".")) {
-			const tld = parts[0].toLowerCase().slice(0, -1);
-			dnssecMap.set(tld, true);
-		}
+function createDnssecMap(
+	zoneRecords: Map<string, TldZoneRecords>,
+): Map<string, boolean> {
+	const dnssecMap = new Map<string, boolean>();
+	zoneRecords.forEach((records, tld) => {
+		if (records.ds.length > 0) dnssecMap.set(tld, true);
 	});
-
 	return dnssecMap;
 }
 
-function createRdapMap(services: any[][]): Map<string, string[]> {
-	const rdapMap = new Map<string, string[]>();
-	services.forEach(([tlds, urls]) => {
-		tlds.forEach((tld: string) => {
-			rdapMap.set(tld.toLowerCase(), urls);
-		});
+/**
+ * Snapshots from before the A-label join (rows without `ascii`) joined IDN
+ * TLDs on their Unicode name, which never matched, so their RDAP and DNSSEC
+ * values are empty. Those are re-joined with this run's sources, otherwise
+ * the fix itself would be diffed as RDAP and DNSSEC changes.
+ */
+function rejoinLegacySnapshot(
+	previousData: SnapshotRow[] | null,
+	rdapMap: Map<string, string[]>,
+	dnssecMap: Map<string, boolean>,
+): SnapshotRow[] | null {
+	return (
+		previousData?.map((row) => {
+			const ascii = toALabel(row.domain);
+			if ("ascii" in row || !ascii.startsWith("xn--")) return row;
+			return {
+				...row,
+				rdap: rdapMap.get(ascii) || [],
+				dnssec: dnssecMap.get(ascii) || false,
+			};
+		}) ?? null
+	);
+}
+
+/**
+ * Whether each TLD has an ICANN rule in the PSL, keyed by A-label. Without
+ * the PSL the previous snapshot's flags are kept, TLDs it doesn't have are
+ * left out and published as null.
+ */
+function createPslFlags(
+	tldRows: TLDRow[],
+	pslRules: PublicSuffixRule[] | null,
+	previousData: SnapshotRow[] | null,
+): Map<string, boolean> {
+	if (pslRules) {
+		const pslTlds = tldsInSection(pslRules, "icann");
+		return new Map(
+			tldRows.map((row) => {
+				const ascii = toALabel(row.domain);
+				return [ascii, pslTlds.has(ascii)];
+			}),
+		);
+	}
+
+	const flags = new Map<string, boolean>();
+	(previousData ?? []).forEach((row) => {
+		if (typeof row.psl === "boolean") flags.set(toALabel(row.domain), row.psl);
 	});
-	return rdapMap;
+	return flags;
 }
 
 function mergeData(
 	tldRows: TLDRow[],
 	rdapMap: Map<string, string[]>,
 	dnssecMap: Map<string, boolean>,
-	db: Database | null,
+	detailsMap: Map<string, TldDetails>,
+	pslFlags: Map<string, boolean>,
+	idnTables: Map<string, string[]>,
+	zoneStats: Map<string, ZoneStats>,
 ): any[] {
 	return tldRows.map((tld) => {
-		const tldWithoutDot = tld.domain.replace(/^\./, "").toLowerCase();
+		// RDAP, DNSSEC, detail and zone stats maps are keyed by A-label
+		const ascii = toALabel(tld.domain);
+		const details = detailsMap.get(ascii);
+		const stats = zoneStats.get(ascii);
 		return {
 			...tld,
-			rdap: rdapMap.get(tldWithoutDot) || [],
-			dnssec: dnssecMap.get(tldWithoutDot) || false,
-			search: db ? true : false, // Simplified for example
+			...describeTld(tld.domain, idnTables),
+			rdap: rdapMap.get(ascii) || [],
+			dnssec: dnssecMap.get(ascii) || false,
+			// Zone data is searchable once the centralized zone job imported it
+			search: stats !== undefined,
+			psl: pslFlags.get(ascii) ?? null,
+			whoisServer: details?.whoisServer ?? null,
+			registrationUrl: details?.registrationUrl ?? null,
+			registrationDate: details?.registrationDate ?? null,
+			lastUpdated: details?.lastUpdated ?? null,
+			sponsor: details?.sponsor ?? null,
+			adminContact: details?.adminContact ?? null,
+			techContact: details?.techContact ?? null,
+			zoneStats: stats ?? null,
 		};
 	});
 }
 
 function saveLocalFiles(
+	publication: Publication,
 	tldRows: TLDRow[],
 	rdapServices: any[][],
 	dnssecMap: Map<string, boolean>,
+	zoneRecords: Map<string, TldZoneRecords>,
 	combinedData: any[],
 ): void {
-	const dataDir = "./data/root-zone";
-
-	// Save TLD data
-	FileWriter.writeJson(`${dataDir}/tld.json`, tldRows);
-	FileWriter.writeCsv(
-		`${dataDir}/tld.csv`,
-		tldRows.map((r) => [r.domain, r.type, r.tldManager]),
-		["Domain", "Type", "TLD Manager"],
-	);
-
-	// Save RDAP data
-	FileWriter.writeJson(`${dataDir}/rdap.json`, rdapServices);
-	const rdapCsvData = rdapServices.map(([tlds, urls]) => [
-		tlds.join(", "),
-		urls.join(", "),
-	]);
-	FileWriter.writeCsv(`${dataDir}/rdap.csv`, rdapCsvData, ["TLDs", "URLs"]);
-
-	// Save DNSSEC data
 	const dnssecData = Array.from(dnssecMap.entries()).map(
 		([domain, dnssec]) => ({ domain, dnssec }),
 	);
-	FileWriter.writeJson(`${dataDir}/dnssec.json`, dnssecData);
-	FileWriter.writeCsv(
-		`${dataDir}/dnssec.csv`,
-		dnssecData.map((d) => [d.domain, d.dnssec ? "Yes" : "No"]),
-		["Domain", "DNSSEC"],
-	);
-
-	// Save combined data
-	FileWriter.writeJson(`${dataDir}/combined.json`, combinedData);
-	FileWriter.writeCsv(
-		`${dataDir}/combined.csv`,
-		combinedData.map((row) => [
-			row.domain,
-			row.type,
-			row.tldManager,
-			row.rdap.join(", "),
-			row.dnssec ? "Yes" : "No",
-			row.search ? "Yes" : "No",
-		]),
-		["Domain", "Type", "TLD Manager", "RDAP URLs", "DNSSEC", "Search"],
-	);
+	const zoneData = Array.from(zoneRecords.values());
+	const dsData = zoneData.filter(({ ds }) => ds.length > 0);
+
+	publication.write([
+		{
+			name: "tld",
+			data: tldRows,
+			sources: [IANA_ROOT_ZONE_URL],
+			headers: ["Domain", "Type", "TLD Manager"],
+			rows: tldRows.map((r) => [r.domain, r.type, r.tldManager]),
+		},
+		{
+			name: "rdap",
+			data: rdapServices,
+			sources: [IANA_RDAP_BOOTSTRAP_URL],
+			headers: ["TLDs", "URLs"],
+			rows: rdapServices.map(([tlds, urls]) => [
+				tlds.join(", "),
+				urls.join(", "),
+			]),
+		},
+		{
+			name: "dnssec",
+			data: dnssecData,
+			sources: [INTERNIC_ROOT_ZONE_URL],
+			headers: ["Domain", "DNSSEC"],
+			rows: dnssecData.map((d) => [d.domain, d.dnssec ? "Yes" : "No"]),
+		},
+		{
+			name: "nameservers",
+			data: zoneData.map(({ tld, nameservers }) => ({ domain: tld, nameservers })),
+			sources: [INTERNIC_ROOT_ZONE_URL],
+			headers: ["Domain", "Nameserver", "TTL", "IPv4", "IPv6"],
+			rows: zoneData.flatMap(({ tld, nameservers }) =>
+				nameservers.map((ns) => [
+					tld,
+					ns.host,
+					ns.ttl,
+					ns.ipv4.join(", "),
+					ns.ipv6.join(", "),
+				]),
+			),
+		},
+		{
+			name: "ds",
+			data: dsData.map(({ tld, ds }) => ({ domain: tld, ds })),
+			sources: [INTERNIC_ROOT_ZONE_URL],
+			headers: [
+				"Domain",
+				"Key Tag",
+				"Algorithm",
+				"Algorithm Name",
+				"Digest Type",
+				"Digest Type Name",
+				"Digest",
+				"TTL",
+			],
+			rows: dsData.flatMap(({ tld, ds }) =>
+				ds.map((d) => [
+					tld,
+					d.keyTag,
+					d.algorithm,
+					d.algorithmName,
+					d.digestType,
+					d.digestTypeName,
+					d.digest,
+					d.ttl,
+				]),
+			),
+		},
+		{
+			name: "combined",
+			data: combinedData,
+			sources: COMBINED_SOURCES,
+			headers: [
+				"Domain",
+				"ASCII",
+				"Unicode",
+				"Script",
+				"Language Tags",
+				"Type",
+				"TLD Manager",
+				"RDAP URLs",
+				"DNSSEC",
+				"Search",
+				"Public Suffix",
+				"WHOIS Server",
+				"Registration URL",
+				"Registration Date",
+				"Last Updated",
+				"Sponsoring Organisation",
+				"Admin Contact Email",
+				"Tech Contact Email",
+				"Zone Domains",
+				"Zone DNSSEC Ratio",
+			],
+			rows: combinedData.map((row) => [
+				row.domain,
+				row.ascii,
+				row.unicode,
+				row.script ?? "",
+				row.languageTags.join(", "),
+				row.type,
+				row.tldManager,
+				row.rdap.join(", "),
+				row.dnssec ? "Yes" : "No",
+				row.search ? "Yes" : "No",
+				row.psl === null ? "" : row.psl ? "Yes" : "No",
+				row.whoisServer ?? "",
+				row.registrationUrl ?? "",
+				row.registrationDate ?? "",
+				row.lastUpdated ?? "",
+				row.sponsor?.name ?? "",
+				row.adminContact?.email ?? "",
+				row.techContact?.email ?? "",
+				row.zoneStats?.domainCount ?? "",
+				row.zoneStats?.dnssecRatio ?? "",
+			]),
+		},
+	]);
 
 	console.log("✅ Root zone files saved locally");
 }
 
+// Returns the number of TLDs that could not be written
 async function saveToDatabase(
-  db: Database, 
+  storage: Storage,
   tldRows: TLDRow[], 
   rdapMap: Map<string, string[]>, 
   dnssecMap: Map<string, boolean>,
-  combinedData: any[]
-): Promise<void> {
-  const client = db.getClient();
-  
-  // Initialize tables if needed
-  await db.initializeTables();
-
+  zoneRecords: Map<string, TldZoneRecords>,
+  detailsMap: Map<string, TldDetails>,
+  idnTables: Map<string, string[]>,
+): Promise<number> {
   console.log(`📊 Starting database insert for ${tldRows.length} TLDs...`);
 
   // Process TLDs in parallel with concurrency control
@@ -190,44 +478,40 @@ async function saveToDatabase(
 
   // Process in batches to avoid overwhelming the database
   for (let i = 0; i < tldRows.length; i += CONCURRENCY_LIMIT) {
-    const batch = tldRows.slice(i, i + CONCURRENCY_LIMIT);
-    const batchPromises = batch.map(async (tld) => {
-      const tldWithoutDot = tld.domain.replace(/^\./, '').toLowerCase();
-      const rdapUrls = rdapMap.get(tldWithoutDot) || [];
-      const hasDnssec = dnssecMap.get(tldWithoutDot) || false;
-
-      // Convert array to proper JSON string
-      const rdapUrlsJson = JSON.stringify(rdapUrls);
-
-      try {
-        await client.query(`
-          INSERT INTO tlds (domain, type, tld_manager, rdap_urls, dnssec, last_updated)
-          VALUES ($1, $2, $3, $4, $5, NOW())
-          ON CONFLICT (domain) 
-          DO UPDATE SET 
-            type = EXCLUDED.type,
-            tld_manager = EXCLUDED.tld_manager,
-            rdap_urls = EXCLUDED.rdap_urls,
-            dnssec = EXCLUDED.dnssec,
-            last_updated = NOW()
-        `, [tldWithoutDot, tld.type, tld.tldManager, rdapUrlsJson, hasDnssec]);
-        
-        return { success: true };
-      } catch (error) {
-        console.error(`\n   ❌ Failed to insert ${tld.domain}:`, (error as Error).message);
-        return { success: false, error };
-      }
+    const batch = tldRows.slice(i, i + CONCURRENCY_LIMIT).map((tld): TldUpsert => {
+      const idn = describeTld(tld.domain, idnTables);
+      const ascii = idn.ascii.slice(1);
+      const records = zoneRecords.get(ascii);
+
+      // Keyed on the A-label like the zone imports, the listed text keeps
+      // direction marks and isn't stable across IDNA forms
+      return {
+        domain: ascii,
+        ascii,
+        unicode: idn.unicode.slice(1),
+        script: idn.script,
+        languageTags: idn.languageTags,
+        type: tld.type,
+        tldManager: tld.tldManager,
+        rdapUrls: rdapMap.get(ascii) || [],
+        dnssec: dnssecMap.get(ascii) || false,
+        nameservers: records?.nameservers || [],
+        ds: records?.ds || [],
+        details: detailsMap.get(ascii) ?? null,
+      };
     });
 
-    // Wait for all promises in the batch to complete
-    const results = await Promise.all(batchPromises);
+    const results = await storage.upsertTlds(batch);
     
     // Count successes and failures
     results.forEach(result => {
-      if (result.success) {
-        successful++;
-      } else {
+      if (result.error) {
+        console.error(`\n   ❌ Failed to insert .${result.domain}:`, result.error.message);
+        recordTld(result.domain, 'failed', result.error);
         failed++;
+      } else {
+        recordTld(result.domain, 'succeeded');
+        successful++;
       }
     });
 
@@ -235,7 +519,26 @@ async function saveToDatabase(
     process.stdout.write(`   Processed ${Math.min(i + CONCURRENCY_LIMIT, tldRows.length)}/${tldRows.length} TLDs (✅ ${successful} ❌ ${failed})...\r`);
   }
 
+  recordWrites('database', successful);
+
+  // Close the history of TLDs that are no longer in the root zone. A short
+  // list published with --force is more likely a broken scrape than mass
+  // revocations, so it never closes anything
+  const { minTldCount } = getThresholds();
+  let revoked = 0;
+  if (tldRows.length > 0 && tldRows.length >= minTldCount) {
+    revoked = await storage.closeRemovedTlds(
+      tldRows.map((tld) => toALabel(tld.domain)),
+    );
+  } else {
+    console.log(`⚠️ Only ${tldRows.length} TLDs listed, not closing the history of missing TLDs`);
+  }
+
   // Clear the progress line and show final result
   process.stdout.write('\r'.padEnd(process.stdout.columns) + '\r');
   console.log(`✅ Root zone data saved to database (✅ ${successful} successful, ❌ ${failed} failed)`);
+  if (revoked) {
+    console.log(`📜 Closed history for ${revoked} removed TLDs`);
+  }
+  return failed;
 }
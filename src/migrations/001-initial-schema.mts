@@ -0,0 +1,36 @@
+import type { Migration } from "../utils/migrator.mts";
+
+export default {
+	version: 1,
+	name: "initial-schema",
+	// IF NOT EXISTS so deployments created before migrations adopt this cleanly
+	up: `
+		CREATE TABLE IF NOT EXISTS tlds (
+			id SERIAL PRIMARY KEY,
+			domain VARCHAR(255) NOT NULL UNIQUE,
+			type VARCHAR(50),
+			tld_manager TEXT,
+			rdap_urls JSONB,
+			dnssec BOOLEAN DEFAULT FALSE,
+			search_available BOOLEAN DEFAULT FALSE,
+			zone_file_size BIGINT,
+			domain_count BIGINT,
+			last_updated TIMESTAMP DEFAULT NOW(),
+			created_at TIMESTAMP DEFAULT NOW()
+		);
+
+		CREATE TABLE IF NOT EXISTS zone_domains (
+			id BIGSERIAL PRIMARY KEY,
+			tld_id INTEGER REFERENCES tlds(id),
+			domain_name VARCHAR(253) NOT NULL,
+			is_available BOOLEAN DEFAULT TRUE,
+			first_seen TIMESTAMP DEFAULT NOW(),
+			last_seen TIMESTAMP DEFAULT NOW(),
+			created_at TIMESTAMP DEFAULT NOW(),
+			UNIQUE(tld_id, domain_name)
+		);
+
+		CREATE INDEX IF NOT EXISTS idx_zone_domains_name
+		ON zone_domains(domain_name);
+	`,
+} satisfies Migration;
@@ -0,0 +1,11 @@
+import type { Migration } from "../utils/migrator.mts";
+
+export default {
+	version: 2,
+	name: "delegation-records",
+	up: `
+		ALTER TABLE tlds
+			ADD COLUMN IF NOT EXISTS nameservers JSONB,
+			ADD COLUMN IF NOT EXISTS ds_records JSONB;
+	`,
+} satisfies Migration;
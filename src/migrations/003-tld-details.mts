@@ -0,0 +1,16 @@
+import type { Migration } from "../utils/migrator.mts";
+
+export default {
+	version: 3,
+	name: "tld-details",
+	up: `
+		ALTER TABLE tlds
+			ADD COLUMN IF NOT EXISTS whois_server VARCHAR(255),
+			ADD COLUMN IF NOT EXISTS registration_url TEXT,
+			ADD COLUMN IF NOT EXISTS registration_date DATE,
+			ADD COLUMN IF NOT EXISTS record_last_updated DATE,
+			ADD COLUMN IF NOT EXISTS sponsor JSONB,
+			ADD COLUMN IF NOT EXISTS admin_contact JSONB,
+			ADD COLUMN IF NOT EXISTS tech_contact JSONB;
+	`,
+} satisfies Migration;
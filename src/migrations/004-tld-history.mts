@@ -0,0 +1,30 @@
+import type { Migration } from "../utils/migrator.mts";
+
+export default {
+	version: 4,
+	name: "tld-history",
+	up: `
+		CREATE TABLE tld_history (
+			id BIGSERIAL PRIMARY KEY,
+			domain VARCHAR(255) NOT NULL,
+			type VARCHAR(50),
+			tld_manager TEXT,
+			rdap_urls JSONB,
+			dnssec BOOLEAN,
+			valid_from TIMESTAMP NOT NULL,
+			valid_to TIMESTAMP
+		);
+
+		CREATE UNIQUE INDEX idx_tld_history_current
+		ON tld_history(domain) WHERE valid_to IS NULL;
+
+		CREATE INDEX idx_tld_history_validity
+		ON tld_history(domain, valid_from, valid_to);
+
+		-- Seed with what we know today so history starts at the last update
+		INSERT INTO tld_history (domain, type, tld_manager, rdap_urls, dnssec, valid_from)
+		SELECT domain, type, tld_manager, rdap_urls, dnssec, COALESCE(last_updated, NOW())
+		FROM tlds
+		WHERE type IS NOT NULL;
+	`,
+} satisfies Migration;
@@ -0,0 +1,15 @@
+import type { Migration } from "../utils/migrator.mts";
+
+export default {
+	version: 5,
+	name: "idn-forms",
+	up: `
+		ALTER TABLE tlds
+			ADD COLUMN IF NOT EXISTS ascii VARCHAR(255),
+			ADD COLUMN IF NOT EXISTS unicode VARCHAR(255),
+			ADD COLUMN IF NOT EXISTS script VARCHAR(32),
+			ADD COLUMN IF NOT EXISTS language_tags JSONB;
+
+		CREATE INDEX IF NOT EXISTS idx_tlds_ascii ON tlds(ascii);
+	`,
+} satisfies Migration;
@@ -0,0 +1,20 @@
+import type { Migration } from "../utils/migrator.mts";
+
+export default {
+	version: 6,
+	name: "zone-import-state",
+	up: `
+		CREATE TABLE IF NOT EXISTS zone_import_state (
+			tld VARCHAR(255) PRIMARY KEY,
+			status VARCHAR(20) NOT NULL,
+			attempts INTEGER NOT NULL DEFAULT 0,
+			zone_hash CHAR(64),
+			last_error TEXT,
+			run_id VARCHAR(32) NOT NULL,
+			updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+		);
+
+		CREATE INDEX IF NOT EXISTS idx_zone_import_state_status
+		ON zone_import_state(status);
+	`,
+} satisfies Migration;
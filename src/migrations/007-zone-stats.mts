@@ -0,0 +1,9 @@
+import type { Migration } from "../utils/migrator.mts";
+
+export default {
+	version: 7,
+	name: "zone-stats",
+	up: `
+		ALTER TABLE tlds ADD COLUMN IF NOT EXISTS zone_stats JSONB;
+	`,
+} satisfies Migration;
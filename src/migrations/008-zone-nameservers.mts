@@ -0,0 +1,21 @@
+import type { Migration } from "../utils/migrator.mts";
+
+export default {
+	version: 8,
+	name: "zone-nameservers",
+	up: `
+		CREATE TABLE IF NOT EXISTS zone_nameservers (
+			tld_id INTEGER NOT NULL REFERENCES tlds(id),
+			domain_name VARCHAR(253) NOT NULL,
+			nameserver VARCHAR(253) NOT NULL,
+			operator VARCHAR(253) NOT NULL,
+			PRIMARY KEY (tld_id, domain_name, nameserver)
+		);
+
+		CREATE INDEX IF NOT EXISTS idx_zone_nameservers_nameserver
+		ON zone_nameservers(nameserver);
+
+		CREATE INDEX IF NOT EXISTS idx_zone_nameservers_operator
+		ON zone_nameservers(operator, tld_id);
+	`,
+} satisfies Migration;
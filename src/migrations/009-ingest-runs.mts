@@ -0,0 +1,20 @@
+import type { Migration } from "../utils/migrator.mts";
+
+export default {
+	version: 9,
+	name: "ingest-runs",
+	up: `
+		CREATE TABLE IF NOT EXISTS ingest_runs (
+			run_id VARCHAR(32) PRIMARY KEY,
+			status VARCHAR(20) NOT NULL,
+			exit_code INTEGER NOT NULL,
+			started_at TIMESTAMP NOT NULL,
+			finished_at TIMESTAMP NOT NULL,
+			source TEXT NOT NULL,
+			report JSONB NOT NULL
+		);
+
+		CREATE INDEX IF NOT EXISTS idx_ingest_runs_started_at
+		ON ingest_runs(started_at);
+	`,
+} satisfies Migration;
@@ -0,0 +1,62 @@
+import { toALabel, toULabel } from "../utils/idn.mts";
+import type { Migration } from "../utils/migrator.mts";
+
+// Root zone runs used to key TLDs on the text IANA lists (U-label, with
+// direction marks for right-to-left scripts), while zone imports key them on
+// the A-label. Every row is re-keyed on its A-label, which is computed here:
+// the `ascii` column is still empty on databases migrating from before 005.
+// Parameters are used once each and in order, so SQLite can run it too.
+export default {
+	version: 10,
+	name: "idn-tld-keys",
+	up: async (query) => {
+		const rows: { id: number; domain: string; type: string | null }[] = await query(
+			"SELECT id, domain, type FROM tlds",
+		);
+		const byDomain = new Map(rows.map((row) => [row.domain, row]));
+
+		for (const row of rows) {
+			const key = toALabel(row.domain);
+			if (key === row.domain) continue;
+			const twin = byDomain.get(key);
+
+			// A root zone run already wrote the A-label row, so this one is
+			// obsolete; its current history version is closed in favour of that row's
+			await query(
+				`UPDATE tld_history SET valid_to = CURRENT_TIMESTAMP
+				WHERE domain = $1 AND valid_to IS NULL
+					AND EXISTS (SELECT 1 FROM tld_history WHERE domain = $2 AND valid_to IS NULL)`,
+				[row.domain, key],
+			);
+			await query("UPDATE tld_history SET domain = $1 WHERE domain = $2", [key, row.domain]);
+
+			if (twin?.type) {
+				await query("UPDATE zone_domains SET tld_id = $1 WHERE tld_id = $2", [twin.id, row.id]);
+				await query("UPDATE zone_nameservers SET tld_id = $1 WHERE tld_id = $2", [twin.id, row.id]);
+				await query("DELETE FROM tlds WHERE id = $1", [row.id]);
+				continue;
+			}
+
+			// The zone import created its own row for the A-label, its zone data
+			// moves onto the root zone row
+			if (twin) {
+				await query(
+					`UPDATE tlds SET (search_available, zone_file_size, domain_count, zone_stats) = (
+						SELECT search_available, zone_file_size, domain_count, zone_stats FROM tlds WHERE id = $1
+					) WHERE id = $2`,
+					[twin.id, row.id],
+				);
+				await query("UPDATE zone_domains SET tld_id = $1 WHERE tld_id = $2", [row.id, twin.id]);
+				await query("UPDATE zone_nameservers SET tld_id = $1 WHERE tld_id = $2", [row.id, twin.id]);
+				await query("DELETE FROM tlds WHERE id = $1", [twin.id]);
+			}
+
+			await query(
+				"UPDATE tlds SET domain = $1, ascii = $2, unicode = COALESCE(unicode, $3) WHERE id = $4",
+				[key, key, toULabel(row.domain), row.id],
+			);
+		}
+
+		await query("UPDATE tlds SET ascii = domain WHERE ascii IS NULL");
+	},
+} satisfies Migration;
@@ -0,0 +1,24 @@
+import initialSchema from "./001-initial-schema.mts";
+import delegationRecords from "./002-delegation-records.mts";
+import tldDetails from "./003-tld-details.mts";
+import tldHistory from "./004-tld-history.mts";
+import idnForms from "./005-idn-forms.mts";
+import zoneImportState from "./006-zone-import-state.mts";
+import zoneStats from "./007-zone-stats.mts";
+import zoneNameservers from "./008-zone-nameservers.mts";
+import ingestRuns from "./009-ingest-runs.mts";
+import idnTldKeys from "./010-idn-tld-keys.mts";
+
+// Append new migrations here, versions must be strictly increasing
+export const migrations = [
+	initialSchema,
+	delegationRecords,
+	tldDetails,
+	tldHistory,
+	idnForms,
+	zoneImportState,
+	zoneStats,
+	zoneNameservers,
+	ingestRuns,
+	idnTldKeys,
+];
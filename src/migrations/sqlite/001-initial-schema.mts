@@ -0,0 +1,104 @@
+import type { Migration } from "../../utils/migrator.mts";
+
+// The schema SQLite files were created with before they were versioned,
+// mirroring PostgreSQL up to migration 009. JSON is stored as text, booleans
+// as 0/1 and timestamps as ISO strings. Every statement is idempotent, so it
+// applies cleanly to those files.
+export default {
+	version: 1,
+	name: "initial-schema",
+	up: `
+		CREATE TABLE IF NOT EXISTS tlds (
+			id INTEGER PRIMARY KEY,
+			domain TEXT NOT NULL UNIQUE,
+			type TEXT,
+			tld_manager TEXT,
+			rdap_urls TEXT,
+			dnssec INTEGER DEFAULT 0,
+			search_available INTEGER DEFAULT 0,
+			zone_file_size INTEGER,
+			domain_count INTEGER,
+			zone_stats TEXT,
+			nameservers TEXT,
+			ds_records TEXT,
+			whois_server TEXT,
+			registration_url TEXT,
+			registration_date TEXT,
+			record_last_updated TEXT,
+			sponsor TEXT,
+			admin_contact TEXT,
+			tech_contact TEXT,
+			ascii TEXT,
+			unicode TEXT,
+			script TEXT,
+			language_tags TEXT,
+			last_updated TEXT
+		);
+
+		CREATE INDEX IF NOT EXISTS idx_tlds_ascii ON tlds(ascii);
+
+		CREATE TABLE IF NOT EXISTS zone_domains (
+			id INTEGER PRIMARY KEY,
+			tld_id INTEGER REFERENCES tlds(id),
+			domain_name TEXT NOT NULL,
+			is_available INTEGER DEFAULT 1,
+			first_seen TEXT,
+			last_seen TEXT,
+			UNIQUE(tld_id, domain_name)
+		);
+
+		CREATE INDEX IF NOT EXISTS idx_zone_domains_name ON zone_domains(domain_name);
+
+		CREATE TABLE IF NOT EXISTS tld_history (
+			id INTEGER PRIMARY KEY,
+			domain TEXT NOT NULL,
+			type TEXT,
+			tld_manager TEXT,
+			rdap_urls TEXT,
+			dnssec INTEGER,
+			valid_from TEXT NOT NULL,
+			valid_to TEXT
+		);
+
+		CREATE UNIQUE INDEX IF NOT EXISTS idx_tld_history_current
+		ON tld_history(domain) WHERE valid_to IS NULL;
+
+		CREATE INDEX IF NOT EXISTS idx_tld_history_validity
+		ON tld_history(domain, valid_from, valid_to);
+
+		CREATE TABLE IF NOT EXISTS zone_import_state (
+			tld TEXT PRIMARY KEY,
+			status TEXT NOT NULL,
+			attempts INTEGER NOT NULL DEFAULT 0,
+			zone_hash TEXT,
+			last_error TEXT,
+			run_id TEXT NOT NULL,
+			updated_at TEXT NOT NULL
+		);
+
+		CREATE INDEX IF NOT EXISTS idx_zone_import_state_status ON zone_import_state(status);
+
+		CREATE TABLE IF NOT EXISTS zone_nameservers (
+			tld_id INTEGER NOT NULL REFERENCES tlds(id),
+			domain_name TEXT NOT NULL,
+			nameserver TEXT NOT NULL,
+			operator TEXT NOT NULL,
+			PRIMARY KEY (tld_id, domain_name, nameserver)
+		);
+
+		CREATE INDEX IF NOT EXISTS idx_zone_nameservers_nameserver ON zone_nameservers(nameserver);
+		CREATE INDEX IF NOT EXISTS idx_zone_nameservers_operator ON zone_nameservers(operator, tld_id);
+
+		CREATE TABLE IF NOT EXISTS ingest_runs (
+			run_id TEXT PRIMARY KEY,
+			status TEXT NOT NULL,
+			exit_code INTEGER NOT NULL,
+			started_at TEXT NOT NULL,
+			finished_at TEXT NOT NULL,
+			source TEXT NOT NULL,
+			report TEXT NOT NULL
+		);
+
+		CREATE INDEX IF NOT EXISTS idx_ingest_runs_started_at ON ingest_runs(started_at);
+	`,
+} satisfies Migration;
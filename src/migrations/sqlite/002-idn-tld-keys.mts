@@ -0,0 +1,8 @@
+import type { Migration } from "../../utils/migrator.mts";
+import idnTldKeys from "../010-idn-tld-keys.mts";
+
+// PostgreSQL migration 010, its queries run unchanged on SQLite
+export default {
+	...idnTldKeys,
+	version: 2,
+} satisfies Migration;
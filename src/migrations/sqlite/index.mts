@@ -0,0 +1,6 @@
+import initialSchema from "./001-initial-schema.mts";
+import idnTldKeys from "./002-idn-tld-keys.mts";
+
+// SQLite has its own list, its SQL differs. Append new migrations here,
+// versions must be strictly increasing
+export const sqliteMigrations = [initialSchema, idnTldKeys];
@@ -0,0 +1,213 @@
+import crypto from "crypto";
+import net from "net";
+import os from "os";
+import tls from "tls";
+import { describeEvent, type EventFilter, type NotificationEvent } from "./rules.mts";
+
+export interface SmtpConfig {
+	host: string;
+	/** Defaults to 465 with `secure`, 587 otherwise */
+	port?: number;
+	/** Implicit TLS; without it STARTTLS is used when the server offers it */
+	secure?: boolean;
+	user?: string;
+	pass?: string;
+	/** Send credentials even when the connection is not encrypted */
+	allowInsecureAuth?: boolean;
+	from: string;
+}
+
+export interface EmailTarget extends EventFilter {
+	to: string[];
+}
+
+export interface EmailMessage {
+	subject: string;
+	text: string;
+}
+
+const SMTP_TIMEOUT_MS = 30000;
+
+export function formatEmail(events: NotificationEvent[]): EmailMessage {
+	const dates = Array.from(new Set(events.map((event) => event.date))).sort();
+	return {
+		subject: `Root zone: ${events.length} change${events.length === 1 ? "" : "s"} on ${dates.join(", ")}`,
+		text: [
+			"The following root zone changes were detected:",
+			"",
+			...events.map((event) => `- ${describeEvent(event)}`),
+			"",
+		].join("\r\n"),
+	};
+}
+
+/**
+ * Sends a plain-text email. Covers what a relay or a transactional mail
+ * provider needs: implicit TLS or STARTTLS, and AUTH PLAIN.
+ */
+export async function sendEmail(
+	smtp: SmtpConfig,
+	to: string[],
+	message: EmailMessage,
+): Promise<void> {
+	// Values expanded from environment variables arrive as strings
+	const secure = String(smtp.secure ?? false) === "true";
+	const allowInsecureAuth = String(smtp.allowInsecureAuth ?? false) === "true";
+	const port = Number(smtp.port ?? (secure ? 465 : 587));
+	let connection = await SmtpConnection.open(smtp.host, port, secure);
+
+	try {
+		await connection.expect(220);
+		const features = await connection.command(`EHLO ${os.hostname()}`, 250);
+		let encrypted = secure;
+
+		if (!secure && /^STARTTLS$/im.test(features)) {
+			await connection.command("STARTTLS", 220);
+			connection = await connection.upgrade(smtp.host);
+			await connection.command(`EHLO ${os.hostname()}`, 250);
+			encrypted = true;
+		}
+
+		if (smtp.user) {
+			if (!encrypted && !allowInsecureAuth) {
+				throw new Error(
+					`${smtp.host} does not offer STARTTLS, refusing to send credentials in cleartext (set smtp.allowInsecureAuth to allow)`,
+				);
+			}
+			const credentials = Buffer.from(`\0${smtp.user}\0${smtp.pass ?? ""}`).toString("base64");
+			await connection.command(`AUTH PLAIN ${credentials}`, 235);
+		}
+
+		await connection.command(`MAIL FROM:<${smtp.from}>`, 250);
+		for (const recipient of to) {
+			await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+		}
+		await connection.command("DATA", 354);
+		await connection.data(buildMessage(smtp.from, to, message));
+		// The message is accepted at this point, some servers hang up on QUIT
+		await connection.command("QUIT", 221).catch(() => undefined);
+	} finally {
+		connection.close();
+	}
+}
+
+function buildMessage(from: string, to: string[], message: EmailMessage): string {
+	const domain = from.split("@")[1] ?? os.hostname();
+	// The body is base64 so TLD names in any script survive servers without 8BITMIME
+	const body = Buffer.from(message.text).toString("base64").replace(/.{76}/g, "$&\r\n");
+	return [
+		`From: ${from}`,
+		`To: ${to.join(", ")}`,
+		`Subject: =?UTF-8?B?${Buffer.from(message.subject).toString("base64")}?=`,
+		`Date: ${new Date().toUTCString()}`,
+		`Message-ID: <${crypto.randomUUID()}@${domain}>`,
+		"MIME-Version: 1.0",
+		"Content-Type: text/plain; charset=utf-8",
+		"Content-Transfer-Encoding: base64",
+		"",
+		body,
+	].join("\r\n");
+}
+
+/**
+ * Line-based SMTP dialogue over a plain or TLS socket. Replies are collected
+ * until the final line of a multi-line response (`250 ` after `250-`).
+ */
+class SmtpConnection {
+	private buffer = "";
+	private lines: string[] = [];
+	private waiting: ((reply: { code: number; text: string } | Error) => void) | null = null;
+	// An error or hang-up while no reply was awaited, reported by the next one
+	private failure: Error | null = null;
+
+	private constructor(private readonly socket: net.Socket) {
+		socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+			socket.destroy(new Error(`SMTP server did not answer within ${SMTP_TIMEOUT_MS}ms`)),
+		);
+		socket.on("data", (chunk: Buffer) => this.receive(chunk.toString("utf-8")));
+		socket.on("error", (error) => this.settle(error));
+		socket.on("close", () => this.settle(new Error("SMTP connection closed")));
+	}
+
+	static open(host: string, port: number, secure: boolean): Promise<SmtpConnection> {
+		return new Promise((resolve, reject) => {
+			const socket = secure
+				? tls.connect({ host, port, servername: host }, () => resolve(new SmtpConnection(socket)))
+				: net.connect({ host, port }, () => resolve(new SmtpConnection(socket)));
+			socket.once("error", reject);
+		});
+	}
+
+	upgrade(host: string): Promise<SmtpConnection> {
+		this.socket.removeAllListeners("data");
+		this.socket.removeAllListeners("close");
+		this.socket.removeAllListeners("error");
+		this.socket.setTimeout(0);
+		return new Promise((resolve, reject) => {
+			const socket = tls.connect({ socket: this.socket, servername: host }, () =>
+				resolve(new SmtpConnection(socket)),
+			);
+			socket.once("error", reject);
+		});
+	}
+
+	async expect(codes: number | number[]): Promise<string> {
+		const reply = await new Promise<{ code: number; text: string } | Error>((resolve) => {
+			this.waiting = resolve;
+			this.flush();
+			// Replies read before the failure are still delivered first
+			if (this.failure) this.settle(this.failure);
+		});
+		if (reply instanceof Error) throw reply;
+
+		const accepted = Array.isArray(codes) ? codes : [codes];
+		if (!accepted.includes(reply.code)) {
+			throw new Error(`SMTP error ${reply.code}: ${reply.text}`);
+		}
+		return reply.text;
+	}
+
+	command(line: string, codes: number | number[]): Promise<string> {
+		this.socket.write(`${line}\r\n`);
+		return this.expect(codes);
+	}
+
+	data(message: string): Promise<string> {
+		// A line with a single dot ends the message, so leading dots are doubled
+		this.socket.write(`${message.replace(/^\./gm, "..")}\r\n.\r\n`);
+		return this.expect(250);
+	}
+
+	close(): void {
+		this.socket.destroy();
+	}
+
+	private receive(chunk: string): void {
+		this.buffer += chunk;
+		const lines = this.buffer.split("\r\n");
+		this.buffer = lines.pop() ?? "";
+		this.lines.push(...lines);
+		this.flush();
+	}
+
+	private flush(): void {
+		if (!this.waiting) return;
+		const end = this.lines.findIndex((line) => /^\d{3}( |$)/.test(line));
+		if (end === -1) return;
+
+		const reply = this.lines.splice(0, end + 1);
+		const resolve = this.waiting;
+		this.waiting = null;
+		resolve({
+			code: parseInt(reply[0].slice(0, 3), 10),
+			text: reply.map((line) => line.slice(4)).join("\n"),
+		});
+	}
+
+	private settle(error: Error): void {
+		this.failure ??= error;
+		const resolve = this.waiting;
+		this.waiting = null;
+		resolve?.(error);
+	}
+}
@@ -0,0 +1,136 @@
+import fs from "fs";
+import YAML from "yaml";
+import type { RootZoneChange } from "../utils/changelog.mts";
+import { formatEmail, sendEmail, type EmailTarget, type SmtpConfig } from "./email.mts";
+import {
+	eventsFromChanges,
+	filterEvents,
+	NOTIFICATION_RULES,
+	type EventFilter,
+} from "./rules.mts";
+import { createPayload, deliverWebhook, type WebhookTarget } from "./webhook.mts";
+
+export interface NotificationConfig {
+	webhooks: WebhookTarget[];
+	smtp: SmtpConfig | null;
+	email: EmailTarget[];
+}
+
+let activeConfig: NotificationConfig | null = null;
+
+/**
+ * Loads the notification destinations from a YAML or JSON file, e.g. from
+ * `--notifications`. Without a file, notifications are disabled.
+ */
+export function configureNotifications(
+	filePath: string | undefined = process.env.NOTIFICATIONS_CONFIG,
+): NotificationConfig | null {
+	activeConfig = filePath ? loadNotificationConfig(filePath) : null;
+	return activeConfig;
+}
+
+export function getNotificationConfig(): NotificationConfig | null {
+	return activeConfig;
+}
+
+export function loadNotificationConfig(filePath: string): NotificationConfig {
+	if (!fs.existsSync(filePath)) {
+		throw new Error(`Notification config not found: ${filePath}`);
+	}
+
+	// ${NAME} in any value is replaced from the environment, for secrets
+	const raw = expandEnv(YAML.parse(fs.readFileSync(filePath, "utf-8")) ?? {});
+	const config: NotificationConfig = {
+		webhooks: raw.webhooks ?? [],
+		smtp: raw.smtp ?? null,
+		email: raw.email ?? [],
+	};
+
+	config.webhooks.forEach((webhook, i) => {
+		if (typeof webhook.url !== "string" || !/^https?:\/\/[^/]+/.test(webhook.url)) {
+			throw new Error(`webhooks[${i}]: url must be an http(s) URL`);
+		}
+		if (webhook.format && !["json", "slack"].includes(webhook.format)) {
+			throw new Error(`webhooks[${i}]: unknown format "${webhook.format}", expected json or slack`);
+		}
+		validateFilter(webhook, `webhooks[${i}]`);
+	});
+	config.email.forEach((email, i) => {
+		if (!Array.isArray(email.to) || email.to.length === 0) {
+			throw new Error(`email[${i}]: to must list at least one address`);
+		}
+		validateFilter(email, `email[${i}]`);
+	});
+	if (config.email.length > 0 && (!config.smtp?.host || !config.smtp.from)) {
+		throw new Error("email notifications need smtp.host and smtp.from");
+	}
+
+	return config;
+}
+
+/**
+ * Delivers the events matching each destination's rules. Failed deliveries
+ * are logged, they never fail the job that detected the changes. Returns the
+ * number of failed deliveries.
+ */
+export async function notifyChanges(
+	changes: RootZoneChange[],
+	config: NotificationConfig | null = activeConfig,
+): Promise<number> {
+	if (!config) return 0;
+	const events = eventsFromChanges(changes);
+	if (events.length === 0) return 0;
+
+	const deliveries = [
+		...config.webhooks.map((webhook) => {
+			const matched = filterEvents(events, webhook);
+			return {
+				// Slack and similar URLs embed their secret in the path
+				destination: new URL(webhook.url).host,
+				count: matched.length,
+				send: () => deliverWebhook(webhook, createPayload(matched)),
+			};
+		}),
+		...config.email.map((email) => {
+			const matched = filterEvents(events, email);
+			return {
+				destination: email.to.join(", "),
+				count: matched.length,
+				send: () => sendEmail(config.smtp!, email.to, formatEmail(matched)),
+			};
+		}),
+	].filter((delivery) => delivery.count > 0);
+
+	const results = await Promise.allSettled(deliveries.map((delivery) => delivery.send()));
+	let failed = 0;
+	results.forEach((result, i) => {
+		const { destination, count } = deliveries[i];
+		if (result.status === "fulfilled") {
+			console.log(`🔔 Notified ${destination} of ${count} root zone changes`);
+		} else {
+			console.error(`❌ Failed to notify ${destination}:`, (result.reason as Error).message);
+			failed++;
+		}
+	});
+	return failed;
+}
+
+function validateFilter(filter: EventFilter, label: string): void {
+	const unknown = (filter.rules ?? []).filter((rule) => !NOTIFICATION_RULES.includes(rule));
+	if (unknown.length > 0) {
+		throw new Error(
+			`${label}: unknown rule ${unknown.join(", ")} (available: ${NOTIFICATION_RULES.join(", ")})`,
+		);
+	}
+}
+
+function expandEnv(value: any): any {
+	if (typeof value === "string") {
+		return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? "");
+	}
+	if (Array.isArray(value)) return value.map(expandEnv);
+	if (value && typeof value === "object") {
+		return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, expandEnv(v)]));
+	}
+	return value;
+}
@@ -0,0 +1,108 @@
+import type { RootZoneChange } from "../utils/changelog.mts";
+import { toALabel } from "../utils/idn.mts";
+
+export type NotificationRule =
+	| "tld-delegated"
+	| "tld-revoked"
+	| "manager-changed"
+	| "dnssec-removed"
+	| "rdap-added"
+	| "rdap-changed";
+
+export const NOTIFICATION_RULES: NotificationRule[] = [
+	"tld-delegated",
+	"tld-revoked",
+	"manager-changed",
+	"dnssec-removed",
+	"rdap-added",
+	"rdap-changed",
+];
+
+export interface NotificationEvent {
+	rule: NotificationRule;
+	/** With the leading dot, as in the changelog */
+	tld: string;
+	date: string;
+	previous: string | null;
+	current: string | null;
+}
+
+/** Which events a destination receives, everything by default */
+export interface EventFilter {
+	rules?: NotificationRule[];
+	/** TLDs with or without the leading dot, as A-labels or U-labels */
+	tlds?: string[];
+}
+
+/**
+ * Maps root zone changes to notification events. Changes without a rule,
+ * e.g. a type change or DNSSEC being enabled, are dropped.
+ */
+export function eventsFromChanges(changes: RootZoneChange[]): NotificationEvent[] {
+	return changes.flatMap((change) => {
+		const rule = ruleFor(change);
+		if (!rule) return [];
+		return [
+			{
+				rule,
+				tld: change.domain,
+				date: change.date,
+				previous: change.previous,
+				current: change.current,
+			},
+		];
+	});
+}
+
+export function filterEvents(
+	events: NotificationEvent[],
+	filter: EventFilter,
+): NotificationEvent[] {
+	// Changelog names are the IANA listing, right-to-left ones with direction marks
+	const tlds = filter.tlds?.map(toALabel);
+	return events.filter(
+		(event) =>
+			(!filter.rules || filter.rules.includes(event.rule)) &&
+			(!tlds || tlds.includes(toALabel(event.tld))),
+	);
+}
+
+/**
+ * One line of text per event, for chat messages and emails.
+ */
+export function describeEvent(event: NotificationEvent): string {
+	switch (event.rule) {
+		case "tld-delegated":
+			return `${event.tld} was delegated (${event.current})`;
+		case "tld-revoked":
+			return `${event.tld} was removed from the root zone`;
+		case "manager-changed":
+			return `${event.tld} manager changed from "${event.previous}" to "${event.current}"`;
+		case "dnssec-removed":
+			return `${event.tld} is no longer signed (DNSSEC removed)`;
+		case "rdap-added":
+			return `${event.tld} RDAP endpoint added: ${event.current}`;
+		case "rdap-changed":
+			return `${event.tld} RDAP endpoint changed from ${event.previous} to ${event.current || "none"}`;
+	}
+}
+
+function ruleFor(change: RootZoneChange): NotificationRule | null {
+	switch (change.kind) {
+		case "delegated":
+			return "tld-delegated";
+		case "revoked":
+			return "tld-revoked";
+		case "manager":
+			return "manager-changed";
+		case "dnssec":
+			return change.previous === "true" && change.current === "false"
+				? "dnssec-removed"
+				: null;
+		case "rdap":
+			// The changelog joins the URLs, an empty list becomes ""
+			return change.previous ? "rdap-changed" : "rdap-added";
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,119 @@
+import crypto from "crypto";
+import { fetchWithRetry, getRetryPolicy } from "../utils/fetcher.mts";
+import { describeEvent, type EventFilter, type NotificationEvent } from "./rules.mts";
+
+export interface WebhookTarget extends EventFilter {
+	url: string;
+	/** `json` posts the signed event payload, `slack` an incoming-webhook message */
+	format?: "json" | "slack";
+	/** HMAC-SHA256 key, requests are unsigned without it */
+	secret?: string;
+	/** Overrides the retry policy's FETCH_MAX_RETRIES for this webhook */
+	retries?: number;
+}
+
+export interface WebhookPayload {
+	/** Stays the same across retries, receivers can use it to deduplicate */
+	id: string;
+	type: "root-zone.changes";
+	createdAt: string;
+	events: NotificationEvent[];
+}
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const ID_HEADER = "X-Webhook-Id";
+
+// Older timestamps are rejected by verifySignature to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export function createPayload(events: NotificationEvent[]): WebhookPayload {
+	return {
+		id: crypto.randomUUID(),
+		type: "root-zone.changes",
+		createdAt: new Date().toISOString(),
+		events,
+	};
+}
+
+/**
+ * Signs `<timestamp>.<body>`, so a captured request cannot be replayed later
+ * with a fresh timestamp.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+	const digest = crypto
+		.createHmac("sha256", secret)
+		.update(`${timestamp}.${body}`)
+		.digest("hex");
+	return `sha256=${digest}`;
+}
+
+/**
+ * Checks the signature headers of a received webhook, for receivers written
+ * in TypeScript and for the stand-in receiver.
+ */
+export function verifySignature(
+	secret: string,
+	body: string,
+	timestampHeader: string | undefined,
+	signatureHeader: string | undefined,
+	now: number = Date.now(),
+): boolean {
+	const timestamp = Number(timestampHeader);
+	if (!signatureHeader || !Number.isInteger(timestamp)) return false;
+	if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+	const expected = Buffer.from(signPayload(secret, timestamp, body));
+	const actual = Buffer.from(signatureHeader);
+	return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Posts the events to one webhook, retrying like any upstream request.
+ * Throws once the retries are exhausted.
+ */
+export async function deliverWebhook(
+	target: WebhookTarget,
+	payload: WebhookPayload,
+): Promise<void> {
+	const body = JSON.stringify(
+		target.format === "slack" ? formatSlackMessage(payload.events) : payload,
+	);
+	const headers = {
+		"Content-Type": "application/json",
+		[ID_HEADER]: payload.id,
+	};
+	// Each attempt is signed anew, Retry-After delays can add up to more than
+	// the tolerance of verifySignature
+	const attemptHeaders = (): Record<string, string> => {
+		const timestamp = Math.floor(Date.now() / 1000);
+		return {
+			[TIMESTAMP_HEADER]: String(timestamp),
+			...(target.secret && {
+				[SIGNATURE_HEADER]: signPayload(target.secret, timestamp, body),
+			}),
+		};
+	};
+
+	const retryPolicy =
+		target.retries === undefined
+			? getRetryPolicy()
+			: { ...getRetryPolicy(), maxRetries: target.retries };
+	const response = await fetchWithRetry(
+		target.url,
+		{ method: "POST", headers, attemptHeaders, body },
+		retryPolicy,
+	);
+	response.body?.resume();
+}
+
+/**
+ * Renders the events as a Slack incoming-webhook message, which Mattermost
+ * and Discord's `/slack` endpoint accept too.
+ */
+export function formatSlackMessage(events: NotificationEvent[]): { text: string } {
+	const lines = events.map((event) => `• ${describeEvent(event)}`);
+	return {
+		text: [`*${events.length} root zone change${events.length === 1 ? "" : "s"}*`, ...lines].join("\n"),
+	};
+}
@@ -0,0 +1,183 @@
+import { stringify } from "csv-stringify/sync";
+import crypto from "crypto";
+import http from "http";
+import type { DataBackend, TldFilter } from "./backend.mts";
+
+const DEFAULT_DOMAIN_LIMIT = 1000;
+const MAX_DOMAIN_LIMIT = 10000;
+
+class HttpError extends Error {
+	constructor(
+		readonly status: number,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+type Route = {
+	pattern: RegExp;
+	handler: (params: string[], query: URLSearchParams) => Promise<unknown>;
+};
+
+export function createApiServer(backend: DataBackend): http.Server {
+	const routes: Route[] = [
+		{
+			pattern: /^\/tlds\/?$/,
+			handler: (_, query) => backend.listTlds(parseFilter(query)),
+		},
+		{
+			pattern: /^\/tlds\/([^/]+)$/,
+			handler: async ([tld]) => {
+				const record = await backend.getTld(tld);
+				if (!record) throw new HttpError(404, `Unknown TLD: ${tld}`);
+				return record;
+			},
+		},
+		{
+			pattern: /^\/rdap\/([^/]+)$/,
+			handler: async ([tld]) => {
+				const record = await backend.getTld(tld);
+				if (!record) throw new HttpError(404, `Unknown TLD: ${tld}`);
+				return { domain: record.domain, rdap: record.rdap };
+			},
+		},
+		{
+			pattern: /^\/domains\/([^/]+)$/,
+			handler: async ([tld], query) => {
+				const limit = parseLimit(query.get("limit"));
+				const prefix = (query.get("prefix") ?? "").toLowerCase();
+				const domains = await backend.listDomains(tld, prefix, limit);
+				if (!domains) throw new HttpError(404, `No zone data for TLD: ${tld}`);
+				return domains.map((domain) => ({ domain }));
+			},
+		},
+	];
+
+	return http.createServer(async (req, res) => {
+		const url = new URL(req.url ?? "/", "http://localhost");
+
+		try {
+			if (req.method !== "GET" && req.method !== "HEAD") {
+				throw new HttpError(405, "Method not allowed");
+			}
+
+			const route = routes.find((r) => r.pattern.test(url.pathname));
+			if (!route) throw new HttpError(404, "Not found");
+
+			const params = (url.pathname.match(route.pattern) ?? [])
+				.slice(1)
+				.map(decodeParam);
+			const data = await route.handler(params, url.searchParams);
+			sendData(req, res, data, await backend.lastModified());
+		} catch (error) {
+			const status = error instanceof HttpError ? error.status : 500;
+			if (status === 500) console.error("❌ API error:", error);
+			res.writeHead(status, { "Content-Type": "application/json" });
+			res.end(JSON.stringify({ error: (error as Error).message }));
+		}
+	});
+}
+
+function sendData(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	data: unknown,
+	lastModified: Date | null,
+): void {
+	const url = new URL(req.url ?? "/", "http://localhost");
+	const format =
+		url.searchParams.get("format") ??
+		((req.headers.accept ?? "").includes("text/csv") ? "csv" : "json");
+
+	const body = format === "csv" ? toCsv(data) : JSON.stringify(data);
+	const etag = `"${crypto.createHash("sha1").update(body).digest("hex")}"`;
+	const headers: http.OutgoingHttpHeaders = {
+		"Content-Type":
+			format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+		ETag: etag,
+		Vary: "Accept",
+		"Cache-Control": "public, max-age=300",
+	};
+	if (lastModified) headers["Last-Modified"] = lastModified.toUTCString();
+
+	if (isNotModified(req, etag, lastModified)) {
+		res.writeHead(304, headers);
+		res.end();
+		return;
+	}
+
+	res.writeHead(200, headers);
+	res.end(req.method === "HEAD" ? undefined : body);
+}
+
+function isNotModified(
+	req: http.IncomingMessage,
+	etag: string,
+	lastModified: Date | null,
+): boolean {
+	const ifNoneMatch = req.headers["if-none-match"];
+	if (ifNoneMatch) {
+		return ifNoneMatch.split(",").some((tag) => tag.trim() === etag);
+	}
+
+	const ifModifiedSince = req.headers["if-modified-since"];
+	if (ifModifiedSince && lastModified) {
+		// HTTP dates have second precision
+		return Math.floor(lastModified.getTime() / 1000) <= Date.parse(ifModifiedSince) / 1000;
+	}
+
+	return false;
+}
+
+function toCsv(data: unknown): string {
+	const rows = (Array.isArray(data) ? data : [data]) as Record<string, unknown>[];
+	if (rows.length === 0) return "";
+
+	const headers = Object.keys(rows[0]);
+	return stringify([
+		headers,
+		...rows.map((row) => headers.map((key) => formatCell(row[key]))),
+	]);
+}
+
+function formatCell(value: unknown): string {
+	if (value === null || value === undefined) return "";
+	if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
+		return value.join(", ");
+	}
+	if (typeof value === "object") return JSON.stringify(value);
+	return String(value);
+}
+
+function decodeParam(param: string): string {
+	try {
+		return decodeURIComponent(param);
+	} catch {
+		throw new HttpError(400, `Malformed percent-encoding in path: ${param}`);
+	}
+}
+
+function parseFilter(query: URLSearchParams): TldFilter {
+	const filter: TldFilter = {};
+	const type = query.get("type");
+	const dnssec = query.get("dnssec");
+
+	if (type) filter.type = type;
+	if (dnssec !== null) {
+		if (dnssec !== "true" && dnssec !== "false") {
+			throw new HttpError(400, 'dnssec must be "true" or "false"');
+		}
+		filter.dnssec = dnssec === "true";
+	}
+	return filter;
+}
+
+function parseLimit(value: string | null): number {
+	if (value === null) return DEFAULT_DOMAIN_LIMIT;
+	const limit = parseInt(value, 10);
+	if (Number.isNaN(limit) || limit < 1) {
+		throw new HttpError(400, "limit must be a positive integer");
+	}
+	return Math.min(limit, MAX_DOMAIN_LIMIT);
+}
@@ -0,0 +1,36 @@
+export interface TldRecord {
+	domain: string;
+	type: string;
+	tldManager: string;
+	rdap: string[];
+	dnssec: boolean;
+	[key: string]: unknown;
+}
+
+export interface TldFilter {
+	type?: string;
+	dnssec?: boolean;
+}
+
+/**
+ * Read-only view of the published datasets. TLDs are passed without the
+ * leading dot and lowercased.
+ */
+export interface DataBackend {
+	listTlds(filter: TldFilter): Promise<TldRecord[]>;
+	getTld(tld: string): Promise<TldRecord | null>;
+	/** Null when the TLD has no zone data available */
+	listDomains(tld: string, prefix: string, limit: number): Promise<string[] | null>;
+	lastModified(): Promise<Date | null>;
+	close(): Promise<void>;
+}
+
+export function matchesFilter(record: TldRecord, filter: TldFilter): boolean {
+	if (filter.type && record.type !== filter.type) return false;
+	if (filter.dnssec !== undefined && record.dnssec !== filter.dnssec) return false;
+	return true;
+}
+
+export function normalizeTld(tld: string): string {
+	return tld.replace(/^\./, "").toLowerCase();
+}
@@ -0,0 +1,98 @@
+import type { Database } from "../utils/database.mts";
+import { toALabel } from "../utils/idn.mts";
+import {
+	type DataBackend,
+	type TldFilter,
+	type TldRecord,
+} from "./backend.mts";
+
+/**
+ * Serves the `tlds` and `zone_domains` tables, shaped like `combined.json`.
+ */
+export class DatabaseBackend implements DataBackend {
+	constructor(private readonly db: Database) {}
+
+	async listTlds(filter: TldFilter): Promise<TldRecord[]> {
+		const result = await this.db.query(
+			`
+			SELECT * FROM tlds
+			WHERE type IS NOT NULL
+				AND ($1::TEXT IS NULL OR type = $1)
+				AND ($2::BOOLEAN IS NULL OR dnssec = $2)
+			ORDER BY domain
+			`,
+			[filter.type ?? null, filter.dnssec ?? null],
+		);
+		return result.rows.map(toRecord);
+	}
+
+	async getTld(tld: string): Promise<TldRecord | null> {
+		const result = await this.db.query(
+			// Rows are keyed on the A-label, so either form of an IDN TLD matches
+			"SELECT * FROM tlds WHERE domain = $1 AND type IS NOT NULL",
+			[toALabel(tld)],
+		);
+		return result.rows[0] ? toRecord(result.rows[0]) : null;
+	}
+
+	async listDomains(
+		tld: string,
+		prefix: string,
+		limit: number,
+	): Promise<string[] | null> {
+		const tldResult = await this.db.query(
+			"SELECT id FROM tlds WHERE domain = $1 AND search_available",
+			[toALabel(tld)],
+		);
+		if (!tldResult.rows[0]) return null;
+
+		const escaped = prefix.replace(/[\\%_]/g, (c) => `\\${c}`);
+		const result = await this.db.query(
+			`
+			SELECT domain_name FROM zone_domains
+			WHERE tld_id = $1 AND is_available AND domain_name LIKE $2
+			ORDER BY domain_name
+			LIMIT $3
+			`,
+			[tldResult.rows[0].id, `${escaped}%`, limit],
+		);
+		return result.rows.map((row) => row.domain_name);
+	}
+
+	async lastModified(): Promise<Date | null> {
+		const result = await this.db.query(
+			"SELECT MAX(last_updated) AS last_updated FROM tlds",
+		);
+		return result.rows[0]?.last_updated ?? null;
+	}
+
+	async close(): Promise<void> {
+		await this.db.disconnect();
+	}
+}
+
+// Also shapes SQLite rows, once their JSON and boolean columns are decoded
+export function toRecord(row: any): TldRecord {
+	return {
+		domain: `.${row.unicode ?? row.domain}`,
+		ascii: row.ascii ? `.${row.ascii}` : null,
+		unicode: row.unicode ? `.${row.unicode}` : null,
+		script: row.script,
+		languageTags: row.language_tags ?? [],
+		type: row.type,
+		tldManager: row.tld_manager,
+		rdap: row.rdap_urls ?? [],
+		dnssec: row.dnssec,
+		search: row.search_available,
+		whoisServer: row.whois_server,
+		registrationUrl: row.registration_url,
+		registrationDate: row.registration_date,
+		lastUpdated: row.record_last_updated,
+		sponsor: row.sponsor,
+		adminContact: row.admin_contact,
+		techContact: row.tech_contact,
+		nameservers: row.nameservers ?? [],
+		ds: row.ds_records ?? [],
+		zoneStats: row.zone_stats,
+	};
+}
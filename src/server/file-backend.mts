@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { toALabel } from "../utils/idn.mts";
+import {
+	matchesFilter,
+	normalizeTld,
+	type DataBackend,
+	type TldFilter,
+	type TldRecord,
+} from "./backend.mts";
+
+/**
+ * Serves the generated files under `data/`. `combined.json` is reloaded
+ * whenever its modification time changes.
+ */
+export class FileBackend implements DataBackend {
+	private records: TldRecord[] = [];
+	private loadedAt = 0;
+
+	constructor(private readonly dataDir: string = "./data") {}
+
+	async listTlds(filter: TldFilter): Promise<TldRecord[]> {
+		return this.load().filter((record) => matchesFilter(record, filter));
+	}
+
+	async getTld(tld: string): Promise<TldRecord | null> {
+		// IDN TLDs can be requested as either U-label or A-label
+		const domain = `.${normalizeTld(tld)}`;
+		const ascii = `.${toALabel(tld)}`;
+		return (
+			this.load().find(
+				(record) => record.domain === domain || record.ascii === ascii,
+			) ?? null
+		);
+	}
+
+	async listDomains(
+		tld: string,
+		prefix: string,
+		limit: number,
+	): Promise<string[] | null> {
+		// Zone files are named by A-label, anything else must not reach the path
+		const ascii = toALabel(tld);
+		if (!/^[a-z0-9-]+$/.test(ascii)) return null;
+
+		const filePath = path.join(this.dataDir, "centralized-zone", `${ascii}.txt`);
+		if (!fs.existsSync(filePath)) return null;
+
+		const domains: string[] = [];
+		const input = fs.createReadStream(filePath);
+		const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+		for await (const line of lines) {
+			if (line.startsWith(prefix)) domains.push(line);
+			if (domains.length >= limit) break;
+		}
+		input.destroy();
+
+		return domains;
+	}
+
+	async lastModified(): Promise<Date | null> {
+		const filePath = this.combinedPath();
+		return fs.existsSync(filePath) ? fs.statSync(filePath).mtime : null;
+	}
+
+	async close(): Promise<void> {}
+
+	private combinedPath(): string {
+		return path.join(this.dataDir, "root-zone", "combined.json");
+	}
+
+	private load(): TldRecord[] {
+		const filePath = this.combinedPath();
+		if (!fs.existsSync(filePath)) return [];
+
+		const mtime = fs.statSync(filePath).mtimeMs;
+		if (mtime !== this.loadedAt) {
+			this.records = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+			this.loadedAt = mtime;
+		}
+		return this.records;
+	}
+}
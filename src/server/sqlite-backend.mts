@@ -0,0 +1,100 @@
+import Sqlite from "better-sqlite3";
+import { toALabel } from "../utils/idn.mts";
+import type { DataBackend, TldFilter, TldRecord } from "./backend.mts";
+import { toRecord } from "./database-backend.mts";
+
+const JSON_COLUMNS = [
+	"rdap_urls",
+	"nameservers",
+	"ds_records",
+	"zone_stats",
+	"language_tags",
+	"sponsor",
+	"admin_contact",
+	"tech_contact",
+];
+const BOOLEAN_COLUMNS = ["dnssec", "search_available"];
+
+/**
+ * Serves the `tlds` and `zone_domains` tables of a SQLite storage file, read
+ * only, so it can run next to the jobs writing it.
+ */
+export class SqliteBackend implements DataBackend {
+	private readonly db: Sqlite.Database;
+
+	constructor(filePath: string) {
+		this.db = new Sqlite(filePath, { readonly: true, fileMustExist: true });
+	}
+
+	async listTlds(filter: TldFilter): Promise<TldRecord[]> {
+		const rows = this.db
+			.prepare(
+				`
+				SELECT * FROM tlds
+				WHERE type IS NOT NULL
+					AND (@type IS NULL OR type = @type)
+					AND (@dnssec IS NULL OR dnssec = @dnssec)
+				ORDER BY domain
+				`,
+			)
+			.all({
+				type: filter.type ?? null,
+				dnssec: filter.dnssec === undefined ? null : Number(filter.dnssec),
+			});
+		return rows.map((row) => toRecord(decodeRow(row)));
+	}
+
+	async getTld(tld: string): Promise<TldRecord | null> {
+		const row = this.db
+			.prepare("SELECT * FROM tlds WHERE domain = ? AND type IS NOT NULL")
+			.get(toALabel(tld));
+		return row ? toRecord(decodeRow(row)) : null;
+	}
+
+	async listDomains(
+		tld: string,
+		prefix: string,
+		limit: number,
+	): Promise<string[] | null> {
+		const tldRow = this.db
+			.prepare("SELECT id FROM tlds WHERE domain = ? AND search_available")
+			.get(toALabel(tld)) as { id: number } | undefined;
+		if (!tldRow) return null;
+
+		const escaped = prefix.replace(/[\\%_]/g, (c) => `\\${c}`);
+		const rows = this.db
+			.prepare(
+				`
+				SELECT domain_name FROM zone_domains
+				WHERE tld_id = ? AND is_available AND domain_name LIKE ? ESCAPE '\\'
+				ORDER BY domain_name
+				LIMIT ?
+				`,
+			)
+			.all(tldRow.id, `${escaped}%`, limit) as { domain_name: string }[];
+		return rows.map((row) => row.domain_name);
+	}
+
+	async lastModified(): Promise<Date | null> {
+		const row = this.db
+			.prepare("SELECT MAX(last_updated) AS last_updated FROM tlds")
+			.get() as { last_updated: string | null };
+		return row.last_updated ? new Date(row.last_updated) : null;
+	}
+
+	async close(): Promise<void> {
+		this.db.close();
+	}
+}
+
+// JSON is stored as text and booleans as 0/1
+function decodeRow(row: any): any {
+	const decoded = { ...row };
+	JSON_COLUMNS.forEach((column) => {
+		if (typeof decoded[column] === "string") decoded[column] = JSON.parse(decoded[column]);
+	});
+	BOOLEAN_COLUMNS.forEach((column) => {
+		if (decoded[column] !== null) decoded[column] = decoded[column] === 1;
+	});
+	return decoded;
+}
@@ -0,0 +1,388 @@
+import { once } from "events";
+import type { PoolClient } from "pg";
+import { from as copyFrom } from "pg-copy-streams";
+import { finished } from "stream/promises";
+import { migrations } from "../migrations/index.mts";
+import type { Database } from "../utils/database.mts";
+import { Migrator, postgresTarget } from "../utils/migrator.mts";
+import type { RunReport } from "../utils/run-report.mts";
+import type { TldRunState } from "../utils/zone-state.mts";
+import type {
+	DelegatedDomain,
+	NameserverQuery,
+	Storage,
+	StreamedZone,
+	TldHistoryRow,
+	TldUpsert,
+	TldUpsertResult,
+	ZoneImportResult,
+	ZoneImportWriter,
+} from "./storage.mts";
+
+/**
+ * Stores everything in PostgreSQL. Every TLD upsert and zone import runs in
+ * its own transaction on a pooled connection, so they proceed in parallel.
+ */
+export class PostgresStorage implements Storage {
+	constructor(private readonly db: Database) {}
+
+	async open(): Promise<void> {
+		await this.db.connect();
+		await this.db.initializeTables();
+	}
+
+	async connect(): Promise<void> {
+		await this.db.connect();
+	}
+
+	migrator(): Migrator {
+		return new Migrator(postgresTarget(this.db), migrations);
+	}
+
+	async close(): Promise<void> {
+		await this.db.disconnect();
+	}
+
+	upsertTlds(tlds: TldUpsert[]): Promise<TldUpsertResult[]> {
+		return Promise.all(
+			tlds.map(async (tld) => {
+				try {
+					await this.db.transaction(async (client) => {
+						await upsertTld(client, tld);
+						await recordHistory(client, tld);
+					});
+					return { domain: tld.domain, error: null };
+				} catch (error) {
+					return { domain: tld.domain, error: error as Error };
+				}
+			}),
+		);
+	}
+
+	async closeRemovedTlds(domains: string[]): Promise<number> {
+		const result = await this.db.query(
+			"UPDATE tld_history SET valid_to = NOW() WHERE valid_to IS NULL AND NOT (domain = ANY($1::VARCHAR[]))",
+			[domains],
+		);
+		return result.rowCount ?? 0;
+	}
+
+	// One transaction per TLD: NOW() is fixed for its duration, which is what
+	// lets the last step tell untouched (dropped) domains apart
+	importZone(
+		tld: string,
+		previousHash: string | null,
+		stream: (writer: ZoneImportWriter) => Promise<StreamedZone | null>,
+	): Promise<ZoneImportResult | null> {
+		return this.db.transaction(async (client) => {
+			const tldResult = await client.query(
+				"INSERT INTO tlds (domain, search_available) VALUES ($1, $2) ON CONFLICT (domain) DO UPDATE SET search_available = $2 RETURNING id",
+				[tld, true],
+			);
+			const tldId = tldResult.rows[0].id;
+
+			const previous = await client.query(
+				"SELECT EXISTS (SELECT 1 FROM zone_domains WHERE tld_id = $1) AS present",
+				[tldId],
+			);
+			const hasPrevious: boolean = previous.rows[0].present;
+
+			// Only one COPY can run at a time, so the NS records share the table:
+			// one row per domain without a nameserver, one per NS record with it
+			await client.query(
+				`CREATE TEMP TABLE zone_import (
+					domain_name VARCHAR(253) NOT NULL,
+					nameserver VARCHAR(253),
+					operator VARCHAR(253)
+				) ON COMMIT DROP`,
+			);
+
+			const copy = client.query(
+				copyFrom("COPY zone_import (domain_name, nameserver, operator) FROM STDIN"),
+			);
+			const copied = finished(copy);
+			copied.catch(() => undefined); // awaited below, avoid an early unhandled rejection
+			const writeRow = async (...values: (string | null)[]) => {
+				const row = values.map((v) => (v === null ? "\\N" : escapeCopyText(v)));
+				if (!copy.write(`${row.join("\t")}\n`)) {
+					await Promise.race([once(copy, "drain"), copied]);
+				}
+			};
+			const streamed = await stream({
+				domain: (name) => writeRow(name, null, null),
+				nameserver: (domain, nameserver, operator) =>
+					writeRow(domain, nameserver, operator),
+			}).catch((error) => {
+				copy.destroy(error);
+				throw error;
+			});
+			copy.end();
+			await copied;
+			if (!streamed) return null;
+
+			// Same content as the last import, leave the stored domains untouched
+			if (streamed.sha256 === previousHash) {
+				return { ...streamed, unchanged: true, updatedCount: 0, addedCount: 0, droppedCount: 0, diff: null };
+			}
+
+			await client.query("CREATE INDEX ON zone_import (domain_name)");
+			await client.query("ANALYZE zone_import");
+
+			const seen = await client.query(
+				`UPDATE zone_domains zd SET last_seen = NOW(), is_available = TRUE
+				FROM (SELECT DISTINCT domain_name FROM zone_import) zi
+				WHERE zd.tld_id = $1 AND zd.domain_name = zi.domain_name`,
+				[tldId],
+			);
+
+			// The first import of a TLD has nothing to diff against, so its
+			// names (every domain in the zone) are not sent back
+			const returning = hasPrevious ? "RETURNING domain_name" : "";
+			const added = await client.query(
+				`INSERT INTO zone_domains (tld_id, domain_name, is_available, first_seen, last_seen)
+				SELECT DISTINCT $1::INTEGER, domain_name, TRUE, NOW(), NOW() FROM zone_import
+				ON CONFLICT (tld_id, domain_name) DO NOTHING
+				${returning}`,
+				[tldId],
+			);
+
+			const dropped = await client.query(
+				`UPDATE zone_domains SET is_available = FALSE WHERE tld_id = $1 AND is_available AND last_seen < NOW() ${returning}`,
+				[tldId],
+			);
+
+			// The reverse index only reflects the current zone
+			await client.query("DELETE FROM zone_nameservers WHERE tld_id = $1", [tldId]);
+			await client.query(
+				`INSERT INTO zone_nameservers (tld_id, domain_name, nameserver, operator)
+				SELECT DISTINCT $1::INTEGER, domain_name, nameserver, operator FROM zone_import
+				WHERE nameserver IS NOT NULL`,
+				[tldId],
+			);
+
+			const { stats } = streamed;
+			await client.query(
+				"UPDATE tlds SET domain_count = $2, zone_file_size = $3, zone_stats = $4, last_updated = NOW() WHERE id = $1",
+				[tldId, stats.domainCount, stats.fileSize, JSON.stringify(stats)],
+			);
+
+			return {
+				...streamed,
+				unchanged: false,
+				updatedCount: seen.rowCount ?? 0,
+				addedCount: added.rowCount ?? 0,
+				droppedCount: dropped.rowCount ?? 0,
+				diff: hasPrevious
+					? {
+							added: added.rows.map((r) => r.domain_name).sort(),
+							removed: dropped.rows.map((r) => r.domain_name).sort(),
+						}
+					: null,
+			};
+		});
+	}
+
+	async loadZoneStates(): Promise<Map<string, TldRunState>> {
+		const result = await this.db.query(
+			"SELECT tld, status, attempts, zone_hash, last_error, run_id, updated_at FROM zone_import_state",
+		);
+		return new Map(
+			result.rows.map((row) => [
+				row.tld,
+				{
+					tld: row.tld,
+					status: row.status,
+					attempts: row.attempts,
+					zoneHash: row.zone_hash,
+					lastError: row.last_error,
+					runId: row.run_id,
+					updatedAt: new Date(row.updated_at).toISOString(),
+				},
+			]),
+		);
+	}
+
+	async saveZoneState(state: TldRunState): Promise<void> {
+		await this.db.query(
+			`INSERT INTO zone_import_state (tld, status, attempts, zone_hash, last_error, run_id, updated_at)
+			VALUES ($1, $2, $3, $4, $5, $6, $7)
+			ON CONFLICT (tld) DO UPDATE SET
+				status = EXCLUDED.status,
+				attempts = EXCLUDED.attempts,
+				zone_hash = EXCLUDED.zone_hash,
+				last_error = EXCLUDED.last_error,
+				run_id = EXCLUDED.run_id,
+				updated_at = EXCLUDED.updated_at`,
+			[
+				state.tld,
+				state.status,
+				state.attempts,
+				state.zoneHash,
+				state.lastError,
+				state.runId,
+				state.updatedAt,
+			],
+		);
+	}
+
+	async recordRun(report: RunReport): Promise<void> {
+		await this.db.query(
+			`INSERT INTO ingest_runs (run_id, status, exit_code, started_at, finished_at, source, report)
+			VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+			[
+				report.runId,
+				report.status,
+				report.exitCode,
+				report.startedAt,
+				report.finishedAt,
+				report.source,
+				JSON.stringify(report),
+			],
+		);
+	}
+
+	async getRootZoneAsOf(asOf: Date, domain?: string): Promise<TldHistoryRow[]> {
+		const result = await this.db.query(
+			`
+			SELECT domain, type, tld_manager, rdap_urls, dnssec, valid_from, valid_to
+			FROM tld_history
+			WHERE valid_from <= $1
+				AND (valid_to IS NULL OR valid_to > $1)
+				AND ($2::TEXT IS NULL OR domain = $2)
+			ORDER BY domain
+			`,
+			[asOf, domain ?? null],
+		);
+
+		return result.rows.map((row) => ({
+			domain: row.domain,
+			type: row.type,
+			tldManager: row.tld_manager,
+			rdapUrls: row.rdap_urls ?? [],
+			dnssec: row.dnssec,
+			validFrom: row.valid_from,
+			validTo: row.valid_to,
+		}));
+	}
+
+	async findDomainsByNameserver(
+		nameserver: string,
+		query: NameserverQuery = {},
+	): Promise<DelegatedDomain[]> {
+		const result = await this.db.query(
+			`
+			SELECT zn.domain_name, t.domain AS tld, zn.nameserver, zn.operator
+			FROM zone_nameservers zn
+			JOIN tlds t ON t.id = zn.tld_id
+			WHERE ${query.provider ? "zn.operator" : "zn.nameserver"} = $1
+				AND ($2::TEXT IS NULL OR t.domain = $2)
+			ORDER BY zn.domain_name, zn.nameserver
+			`,
+			[nameserver, query.tld ?? null],
+		);
+
+		return result.rows.map((row) => ({
+			domain: row.domain_name,
+			tld: row.tld,
+			nameserver: row.nameserver,
+			operator: row.operator,
+		}));
+	}
+}
+
+async function upsertTld(client: PoolClient, tld: TldUpsert): Promise<void> {
+	const { details } = tld;
+	await client.query(
+		`
+		INSERT INTO tlds (
+			domain, type, tld_manager, rdap_urls, dnssec, nameservers, ds_records,
+			whois_server, registration_url, registration_date, record_last_updated,
+			sponsor, admin_contact, tech_contact, ascii, unicode, script, language_tags,
+			last_updated
+		)
+		VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, NOW())
+		ON CONFLICT (domain)
+		DO UPDATE SET
+			type = EXCLUDED.type,
+			tld_manager = EXCLUDED.tld_manager,
+			rdap_urls = EXCLUDED.rdap_urls,
+			dnssec = EXCLUDED.dnssec,
+			nameservers = EXCLUDED.nameservers,
+			ds_records = EXCLUDED.ds_records,
+			whois_server = EXCLUDED.whois_server,
+			registration_url = EXCLUDED.registration_url,
+			registration_date = EXCLUDED.registration_date,
+			record_last_updated = EXCLUDED.record_last_updated,
+			sponsor = EXCLUDED.sponsor,
+			admin_contact = EXCLUDED.admin_contact,
+			tech_contact = EXCLUDED.tech_contact,
+			ascii = EXCLUDED.ascii,
+			unicode = EXCLUDED.unicode,
+			script = EXCLUDED.script,
+			language_tags = EXCLUDED.language_tags,
+			last_updated = NOW()
+		`,
+		[
+			tld.domain,
+			tld.type,
+			tld.tldManager,
+			JSON.stringify(tld.rdapUrls),
+			tld.dnssec,
+			JSON.stringify(tld.nameservers),
+			JSON.stringify(tld.ds),
+			details?.whoisServer ?? null,
+			details?.registrationUrl ?? null,
+			details?.registrationDate ?? null,
+			details?.lastUpdated ?? null,
+			JSON.stringify(details?.sponsor ?? null),
+			JSON.stringify(details?.adminContact ?? null),
+			JSON.stringify(details?.techContact ?? null),
+			tld.ascii,
+			tld.unicode,
+			tld.script,
+			JSON.stringify(tld.languageTags),
+		],
+	);
+}
+
+/**
+ * Starts a new tld_history version when the tracked fields differ from the
+ * open one, closing the previous version first.
+ */
+async function recordHistory(client: PoolClient, tld: TldUpsert): Promise<void> {
+	const params = [
+		tld.domain,
+		tld.type,
+		tld.tldManager,
+		JSON.stringify(tld.rdapUrls),
+		tld.dnssec,
+	];
+
+	await client.query(
+		`
+		UPDATE tld_history SET valid_to = NOW()
+		WHERE domain = $1 AND valid_to IS NULL
+			AND (
+				type IS DISTINCT FROM $2
+				OR tld_manager IS DISTINCT FROM $3
+				OR rdap_urls IS DISTINCT FROM $4::jsonb
+				OR dnssec IS DISTINCT FROM $5
+			)
+		`,
+		params,
+	);
+
+	await client.query(
+		`
+		INSERT INTO tld_history (domain, type, tld_manager, rdap_urls, dnssec, valid_from)
+		SELECT $1::VARCHAR, $2::VARCHAR, $3::TEXT, $4::jsonb, $5::BOOLEAN, NOW()
+		WHERE NOT EXISTS (SELECT 1 FROM tld_history WHERE domain = $1 AND valid_to IS NULL)
+		`,
+		params,
+	);
+}
+
+// COPY text format treats backslashes as escapes
+function escapeCopyText(value: string): string {
+	return value.replace(/\\/g, "\\\\");
+}
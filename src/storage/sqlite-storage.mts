@@ -0,0 +1,438 @@
+import Sqlite from "better-sqlite3";
+import path from "path";
+import { sqliteMigrations } from "../migrations/sqlite/index.mts";
+import { FileWriter } from "../utils/file-writer.mts";
+import {
+	Migrator,
+	type MigrationQuery,
+	type MigrationTarget,
+} from "../utils/migrator.mts";
+import type { RunReport } from "../utils/run-report.mts";
+import type { TldRunState } from "../utils/zone-state.mts";
+import type {
+	DelegatedDomain,
+	NameserverQuery,
+	Storage,
+	StreamedZone,
+	TldHistoryRow,
+	TldUpsert,
+	TldUpsertResult,
+	ZoneImportResult,
+	ZoneImportWriter,
+} from "./storage.mts";
+
+/**
+ * Stores everything in a single SQLite file, for running the database path
+ * without PostgreSQL. There is one connection, so operations are queued.
+ */
+export class SqliteStorage implements Storage {
+	private db: Sqlite.Database | null = null;
+	private queue: Promise<unknown> = Promise.resolve();
+
+	constructor(private readonly filePath: string) {}
+
+	async open(): Promise<void> {
+		await this.connect();
+		const applied = await this.migrator().migrate();
+		console.log(`✅ Opened SQLite database ${this.filePath} (${applied.length} migrations applied)`);
+	}
+
+	async connect(): Promise<void> {
+		FileWriter.ensureDirectory(path.dirname(this.filePath));
+		this.db = new Sqlite(this.filePath);
+		this.db.pragma("journal_mode = WAL");
+	}
+
+	migrator(): Migrator {
+		if (!this.db) throw new Error("SQLite database not opened");
+		return new Migrator(sqliteTarget(this.db), sqliteMigrations);
+	}
+
+	async close(): Promise<void> {
+		await this.queue;
+		this.db?.close();
+		this.db = null;
+	}
+
+	upsertTlds(tlds: TldUpsert[]): Promise<TldUpsertResult[]> {
+		return this.enqueue(async (db) => {
+			const now = new Date().toISOString();
+			const upsert = db.transaction((tld: TldUpsert) => {
+				upsertTld(db, tld, now);
+				recordHistory(db, tld, now);
+			});
+
+			return tlds.map((tld) => {
+				try {
+					upsert(tld);
+					return { domain: tld.domain, error: null };
+				} catch (error) {
+					return { domain: tld.domain, error: error as Error };
+				}
+			});
+		});
+	}
+
+	closeRemovedTlds(domains: string[]): Promise<number> {
+		return this.enqueue(async (db) =>
+			db
+				.prepare(
+					"UPDATE tld_history SET valid_to = ? WHERE valid_to IS NULL AND domain NOT IN (SELECT value FROM json_each(?))",
+				)
+				.run(new Date().toISOString(), JSON.stringify(domains)).changes,
+		);
+	}
+
+	// One transaction per TLD with a fixed timestamp, which is what lets the
+	// last step tell untouched (dropped) domains apart
+	importZone(
+		tld: string,
+		previousHash: string | null,
+		stream: (writer: ZoneImportWriter) => Promise<StreamedZone | null>,
+	): Promise<ZoneImportResult | null> {
+		return this.enqueue(async (db) => {
+			const now = new Date().toISOString();
+			db.exec("BEGIN");
+			try {
+				const { id: tldId } = db
+					.prepare(
+						"INSERT INTO tlds (domain, search_available) VALUES (?, 1) ON CONFLICT (domain) DO UPDATE SET search_available = 1 RETURNING id",
+					)
+					.get(tld) as { id: number };
+				const hasPrevious =
+					db.prepare("SELECT 1 FROM zone_domains WHERE tld_id = ? LIMIT 1").get(tldId) !==
+					undefined;
+
+				db.exec(
+					"CREATE TEMP TABLE zone_import (domain_name TEXT NOT NULL, nameserver TEXT, operator TEXT)",
+				);
+				const insert = db.prepare("INSERT INTO zone_import VALUES (?, ?, ?)");
+				const streamed = await stream({
+					domain: async (name) => {
+						insert.run(name, null, null);
+					},
+					nameserver: async (domain, nameserver, operator) => {
+						insert.run(domain, nameserver, operator);
+					},
+				});
+
+				const result = !streamed
+					? null
+					: streamed.sha256 === previousHash
+						? { ...streamed, unchanged: true, updatedCount: 0, addedCount: 0, droppedCount: 0, diff: null }
+						: mergeZone(db, tldId, hasPrevious, streamed, now);
+
+				db.exec("DROP TABLE temp.zone_import");
+				db.exec("COMMIT");
+				return result;
+			} catch (error) {
+				db.exec("ROLLBACK");
+				throw error;
+			}
+		});
+	}
+
+	loadZoneStates(): Promise<Map<string, TldRunState>> {
+		return this.enqueue(async (db) => {
+			const rows = db.prepare("SELECT * FROM zone_import_state").all() as any[];
+			return new Map(
+				rows.map((row) => [
+					row.tld,
+					{
+						tld: row.tld,
+						status: row.status,
+						attempts: row.attempts,
+						zoneHash: row.zone_hash,
+						lastError: row.last_error,
+						runId: row.run_id,
+						updatedAt: row.updated_at,
+					},
+				]),
+			);
+		});
+	}
+
+	async saveZoneState(state: TldRunState): Promise<void> {
+		await this.enqueue(async (db) =>
+			db
+				.prepare(
+					`INSERT INTO zone_import_state (tld, status, attempts, zone_hash, last_error, run_id, updated_at)
+					VALUES (@tld, @status, @attempts, @zoneHash, @lastError, @runId, @updatedAt)
+					ON CONFLICT (tld) DO UPDATE SET
+						status = excluded.status,
+						attempts = excluded.attempts,
+						zone_hash = excluded.zone_hash,
+						last_error = excluded.last_error,
+						run_id = excluded.run_id,
+						updated_at = excluded.updated_at`,
+				)
+				.run(state),
+		);
+	}
+
+	async recordRun(report: RunReport): Promise<void> {
+		await this.enqueue(async (db) =>
+			db
+				.prepare(
+					`INSERT INTO ingest_runs (run_id, status, exit_code, started_at, finished_at, source, report)
+					VALUES (?, ?, ?, ?, ?, ?, ?)`,
+				)
+				.run(
+					report.runId,
+					report.status,
+					report.exitCode,
+					report.startedAt,
+					report.finishedAt,
+					report.source,
+					JSON.stringify(report),
+				),
+		);
+	}
+
+	getRootZoneAsOf(asOf: Date, domain?: string): Promise<TldHistoryRow[]> {
+		return this.enqueue(async (db) => {
+			const rows = db
+				.prepare(
+					`
+					SELECT domain, type, tld_manager, rdap_urls, dnssec, valid_from, valid_to
+					FROM tld_history
+					WHERE valid_from <= @asOf
+						AND (valid_to IS NULL OR valid_to > @asOf)
+						AND (@domain IS NULL OR domain = @domain)
+					ORDER BY domain
+					`,
+				)
+				.all({ asOf: asOf.toISOString(), domain: domain ?? null }) as any[];
+
+			return rows.map((row) => ({
+				domain: row.domain,
+				type: row.type,
+				tldManager: row.tld_manager,
+				rdapUrls: row.rdap_urls ? JSON.parse(row.rdap_urls) : [],
+				dnssec: row.dnssec === null ? null : row.dnssec === 1,
+				validFrom: new Date(row.valid_from),
+				validTo: row.valid_to ? new Date(row.valid_to) : null,
+			}));
+		});
+	}
+
+	findDomainsByNameserver(
+		nameserver: string,
+		query: NameserverQuery = {},
+	): Promise<DelegatedDomain[]> {
+		return this.enqueue(async (db) => {
+			const rows = db
+				.prepare(
+					`
+					SELECT zn.domain_name, t.domain AS tld, zn.nameserver, zn.operator
+					FROM zone_nameservers zn
+					JOIN tlds t ON t.id = zn.tld_id
+					WHERE ${query.provider ? "zn.operator" : "zn.nameserver"} = @nameserver
+						AND (@tld IS NULL OR t.domain = @tld)
+					ORDER BY zn.domain_name, zn.nameserver
+					`,
+				)
+				.all({ nameserver, tld: query.tld ?? null }) as any[];
+
+			return rows.map((row) => ({
+				domain: row.domain_name,
+				tld: row.tld,
+				nameserver: row.nameserver,
+				operator: row.operator,
+			}));
+		});
+	}
+
+	private enqueue<T>(fn: (db: Sqlite.Database) => Promise<T>): Promise<T> {
+		const run = () => {
+			if (!this.db) throw new Error("SQLite database not opened");
+			return fn(this.db);
+		};
+		const result = this.queue.then(run, run);
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+}
+
+// IMMEDIATE takes the write lock up front, so concurrent migrators wait
+function sqliteTarget(db: Sqlite.Database): MigrationTarget {
+	return {
+		transaction: async (fn) => {
+			db.exec("BEGIN IMMEDIATE");
+			try {
+				const result = await fn({
+					query: sqliteQuery(db),
+					exec: async (sql) => {
+						db.exec(sql);
+					},
+				});
+				db.exec("COMMIT");
+				return result;
+			} catch (error) {
+				db.exec("ROLLBACK");
+				throw error;
+			}
+		},
+	};
+}
+
+// Adapts a database to the migration query function, which uses `$1`-style
+// parameters once each and in order
+function sqliteQuery(db: Sqlite.Database): MigrationQuery {
+	return async (sql, params = []) => {
+		const statement = db.prepare(sql.replace(/\$\d+/g, "?"));
+		if (statement.reader) return statement.all(...params);
+		statement.run(...params);
+		return [];
+	};
+}
+
+function mergeZone(
+	db: Sqlite.Database,
+	tldId: number,
+	hasPrevious: boolean,
+	streamed: StreamedZone,
+	now: string,
+): ZoneImportResult {
+	const params = { tldId, now };
+	db.exec("CREATE INDEX temp.zone_import_domain ON zone_import (domain_name)");
+
+	const seen = db
+		.prepare(
+			`UPDATE zone_domains SET last_seen = @now, is_available = 1
+			WHERE tld_id = @tldId AND domain_name IN (SELECT domain_name FROM zone_import)`,
+		)
+		.run(params);
+
+	// The first import of a TLD has nothing to diff against, so its names
+	// (every domain in the zone) are not read back
+	const changed = (sql: string): { count: number; names: string[] } => {
+		if (!hasPrevious) return { count: db.prepare(sql).run(params).changes, names: [] };
+		const rows = db.prepare(`${sql} RETURNING domain_name`).all(params) as { domain_name: string }[];
+		return { count: rows.length, names: rows.map((r) => r.domain_name) };
+	};
+
+	// WHERE TRUE keeps ON CONFLICT from being parsed as part of the SELECT
+	const added = changed(
+		`INSERT INTO zone_domains (tld_id, domain_name, is_available, first_seen, last_seen)
+		SELECT DISTINCT @tldId, domain_name, 1, @now, @now FROM zone_import WHERE TRUE
+		ON CONFLICT (tld_id, domain_name) DO NOTHING`,
+	);
+
+	const dropped = changed(
+		"UPDATE zone_domains SET is_available = 0 WHERE tld_id = @tldId AND is_available AND last_seen < @now",
+	);
+
+	// The reverse index only reflects the current zone
+	db.prepare("DELETE FROM zone_nameservers WHERE tld_id = ?").run(tldId);
+	db.prepare(
+		`INSERT INTO zone_nameservers (tld_id, domain_name, nameserver, operator)
+		SELECT DISTINCT @tldId, domain_name, nameserver, operator FROM zone_import
+		WHERE nameserver IS NOT NULL`,
+	).run(params);
+
+	const { stats } = streamed;
+	db.prepare(
+		"UPDATE tlds SET domain_count = ?, zone_file_size = ?, zone_stats = ?, last_updated = ? WHERE id = ?",
+	).run(stats.domainCount, stats.fileSize, JSON.stringify(stats), now, tldId);
+
+	return {
+		...streamed,
+		unchanged: false,
+		updatedCount: seen.changes,
+		addedCount: added.count,
+		droppedCount: dropped.count,
+		diff: hasPrevious
+			? { added: added.names.sort(), removed: dropped.names.sort() }
+			: null,
+	};
+}
+
+function upsertTld(db: Sqlite.Database, tld: TldUpsert, now: string): void {
+	const { details } = tld;
+	db.prepare(
+		`
+		INSERT INTO tlds (
+			domain, type, tld_manager, rdap_urls, dnssec, nameservers, ds_records,
+			whois_server, registration_url, registration_date, record_last_updated,
+			sponsor, admin_contact, tech_contact, ascii, unicode, script, language_tags,
+			last_updated
+		)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		ON CONFLICT (domain)
+		DO UPDATE SET
+			type = excluded.type,
+			tld_manager = excluded.tld_manager,
+			rdap_urls = excluded.rdap_urls,
+			dnssec = excluded.dnssec,
+			nameservers = excluded.nameservers,
+			ds_records = excluded.ds_records,
+			whois_server = excluded.whois_server,
+			registration_url = excluded.registration_url,
+			registration_date = excluded.registration_date,
+			record_last_updated = excluded.record_last_updated,
+			sponsor = excluded.sponsor,
+			admin_contact = excluded.admin_contact,
+			tech_contact = excluded.tech_contact,
+			ascii = excluded.ascii,
+			unicode = excluded.unicode,
+			script = excluded.script,
+			language_tags = excluded.language_tags,
+			last_updated = excluded.last_updated
+		`,
+	).run(
+		tld.domain,
+		tld.type,
+		tld.tldManager,
+		JSON.stringify(tld.rdapUrls),
+		tld.dnssec ? 1 : 0,
+		JSON.stringify(tld.nameservers),
+		JSON.stringify(tld.ds),
+		details?.whoisServer ?? null,
+		details?.registrationUrl ?? null,
+		details?.registrationDate ?? null,
+		details?.lastUpdated ?? null,
+		JSON.stringify(details?.sponsor ?? null),
+		JSON.stringify(details?.adminContact ?? null),
+		JSON.stringify(details?.techContact ?? null),
+		tld.ascii,
+		tld.unicode,
+		tld.script,
+		JSON.stringify(tld.languageTags),
+		now,
+	);
+}
+
+// Same versioning as the PostgreSQL implementation, IS NOT is SQLite's
+// null-safe inequality
+function recordHistory(db: Sqlite.Database, tld: TldUpsert, now: string): void {
+	const params = {
+		domain: tld.domain,
+		type: tld.type,
+		tldManager: tld.tldManager,
+		rdapUrls: JSON.stringify(tld.rdapUrls),
+		dnssec: tld.dnssec ? 1 : 0,
+		now,
+	};
+
+	db.prepare(
+		`
+		UPDATE tld_history SET valid_to = @now
+		WHERE domain = @domain AND valid_to IS NULL
+			AND (
+				type IS NOT @type
+				OR tld_manager IS NOT @tldManager
+				OR rdap_urls IS NOT @rdapUrls
+				OR dnssec IS NOT @dnssec
+			)
+		`,
+	).run(params);
+
+	db.prepare(
+		`
+		INSERT INTO tld_history (domain, type, tld_manager, rdap_urls, dnssec, valid_from)
+		SELECT @domain, @type, @tldManager, @rdapUrls, @dnssec, @now
+		WHERE NOT EXISTS (SELECT 1 FROM tld_history WHERE domain = @domain AND valid_to IS NULL)
+		`,
+	).run(params);
+}
@@ -0,0 +1,143 @@
+import { Database } from "../utils/database.mts";
+import type { DomainDiff } from "../utils/domain-diff.mts";
+import type { Migrator } from "../utils/migrator.mts";
+import type { RunReport } from "../utils/run-report.mts";
+import type { TldDetails } from "../utils/tld-details.mts";
+import type { DsRecord, NameserverRecord } from "../utils/zone-parser.mts";
+import type { TldRunState } from "../utils/zone-state.mts";
+import type { ZoneStats } from "../utils/zone-stats.mts";
+import { PostgresStorage } from "./postgres-storage.mts";
+import { SqliteStorage } from "./sqlite-storage.mts";
+
+export interface TldUpsert {
+	/** A-label without the leading dot, the key zone imports use too */
+	domain: string;
+	ascii: string;
+	unicode: string;
+	script: string | null;
+	languageTags: string[];
+	type: string;
+	tldManager: string;
+	rdapUrls: string[];
+	dnssec: boolean;
+	nameservers: NameserverRecord[];
+	ds: DsRecord[];
+	details: TldDetails | null;
+}
+
+export interface TldUpsertResult {
+	domain: string;
+	error: Error | null;
+}
+
+export interface ZoneImportWriter {
+	domain(name: string): Promise<void>;
+	nameserver(domain: string, nameserver: string, operator: string): Promise<void>;
+}
+
+export interface StreamedZone {
+	sha256: string;
+	stats: ZoneStats;
+}
+
+export interface ZoneImportResult extends StreamedZone {
+	/** The zone hashes to `previousHash`, the stored domains were left as they are */
+	unchanged: boolean;
+	updatedCount: number;
+	addedCount: number;
+	droppedCount: number;
+	/** Null on the first import of a TLD, when there is nothing to compare */
+	diff: DomainDiff | null;
+}
+
+export interface TldHistoryRow {
+	domain: string;
+	type: string | null;
+	tldManager: string | null;
+	rdapUrls: string[];
+	dnssec: boolean | null;
+	validFrom: Date;
+	validTo: Date | null;
+}
+
+export interface DelegatedDomain {
+	domain: string;
+	tld: string;
+	nameserver: string;
+	operator: string;
+}
+
+export interface NameserverQuery {
+	/** Match every host of a DNS provider, e.g. `cloudflare.com` */
+	provider?: boolean;
+	/** A-label TLD to search */
+	tld?: string;
+}
+
+/**
+ * Where the jobs persist TLDs and zone imports. Names are passed without the
+ * leading dot and lowercased.
+ */
+export interface Storage {
+	/** Connects and brings the schema up to date */
+	open(): Promise<void>;
+	/** Connects without touching the schema, for the `migrate` command */
+	connect(): Promise<void>;
+	/** Migrations of this backend, once connected */
+	migrator(): Migrator;
+	close(): Promise<void>;
+	/** Upserts each TLD and starts a new history version when it changed */
+	upsertTlds(tlds: TldUpsert[]): Promise<TldUpsertResult[]>;
+	/** Closes the history of TLDs missing from `domains`, returns how many */
+	closeRemovedTlds(domains: string[]): Promise<number>;
+	/**
+	 * Imports one zone: `stream` feeds every domain and NS record into the
+	 * writer, then the domains, the NS index and the stats are merged unless
+	 * the zone is unchanged. `stream` runs once a connection is free, so it
+	 * should only then open the download; it returns null when there was
+	 * nothing to download (a 304), and so does `importZone`.
+	 */
+	importZone(
+		tld: string,
+		previousHash: string | null,
+		stream: (writer: ZoneImportWriter) => Promise<StreamedZone | null>,
+	): Promise<ZoneImportResult | null>;
+	loadZoneStates(): Promise<Map<string, TldRunState>>;
+	saveZoneState(state: TldRunState): Promise<void>;
+	/** Keeps the report of a finished run in `ingest_runs` */
+	recordRun(report: RunReport): Promise<void>;
+	/** The root zone as recorded at `asOf`, optionally for a single TLD */
+	getRootZoneAsOf(asOf: Date, domain?: string): Promise<TldHistoryRow[]>;
+	findDomainsByNameserver(
+		nameserver: string,
+		query?: NameserverQuery,
+	): Promise<DelegatedDomain[]>;
+}
+
+/**
+ * Picks the implementation from the `DATABASE_URL` scheme: `postgres://` or
+ * `postgresql://` for PostgreSQL, `sqlite:<path>` for a SQLite file.
+ */
+export function createStorage(): Storage {
+	const url = process.env.DATABASE_URL;
+	if (!url) {
+		throw new Error("Database configuration not found in environment variables");
+	}
+
+	if (/^postgres(ql)?:\/\//.test(url)) {
+		return new PostgresStorage(new Database());
+	}
+	const sqlitePath = sqliteFilePath(url);
+	if (sqlitePath) {
+		return new SqliteStorage(sqlitePath);
+	}
+
+	throw new Error(
+		`Unsupported DATABASE_URL scheme "${url.split(":")[0]}", expected postgresql:// or sqlite:`,
+	);
+}
+
+/** The file a `sqlite:<path>` URL points at, null for other schemes */
+export function sqliteFilePath(url: string): string | null {
+	return url.startsWith("sqlite:") ? url.replace(/^sqlite:(\/\/)?/, "") : null;
+}
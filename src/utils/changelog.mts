@@ -0,0 +1,114 @@
+import fs from "fs";
+import { FileWriter } from "./file-writer.mts";
+import type { Publication } from "./publisher.mts";
+
+export type ChangeKind =
+	| "delegated"
+	| "revoked"
+	| "type"
+	| "manager"
+	| "rdap"
+	| "dnssec";
+
+export interface SnapshotRow {
+	domain: string;
+	type: string;
+	tldManager: string;
+	rdap: string[];
+	dnssec: boolean;
+	/** Null when the PSL was unavailable and the TLD is new */
+	psl?: boolean | null;
+}
+
+export interface RootZoneChange {
+	date: string;
+	domain: string;
+	kind: ChangeKind;
+	previous: string | null;
+	current: string | null;
+}
+
+export function loadSnapshot(filePath: string): SnapshotRow[] | null {
+	if (!fs.existsSync(filePath)) return null;
+
+	try {
+		const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+		return Array.isArray(data) ? data : null;
+	} catch (error) {
+		console.warn(`⚠️ Could not read previous snapshot ${filePath}:`, (error as Error).message);
+		return null;
+	}
+}
+
+export function diffSnapshots(
+	previous: SnapshotRow[],
+	current: SnapshotRow[],
+	date: string = new Date().toISOString().slice(0, 10),
+): RootZoneChange[] {
+	const previousMap = new Map(previous.map((row) => [row.domain, row]));
+	const currentMap = new Map(current.map((row) => [row.domain, row]));
+	const changes: RootZoneChange[] = [];
+
+	const push = (
+		domain: string,
+		kind: ChangeKind,
+		before: string | null,
+		after: string | null,
+	) => changes.push({ date, domain, kind, previous: before, current: after });
+
+	for (const [domain, row] of currentMap) {
+		const old = previousMap.get(domain);
+		if (!old) {
+			push(domain, "delegated", null, row.type);
+			continue;
+		}
+
+		if (old.type !== row.type) push(domain, "type", old.type, row.type);
+		if (old.tldManager !== row.tldManager) {
+			push(domain, "manager", old.tldManager, row.tldManager);
+		}
+
+		const oldRdap = [...old.rdap].sort().join(", ");
+		const newRdap = [...row.rdap].sort().join(", ");
+		if (oldRdap !== newRdap) push(domain, "rdap", oldRdap, newRdap);
+
+		if (old.dnssec !== row.dnssec) {
+			push(domain, "dnssec", String(old.dnssec), String(row.dnssec));
+		}
+	}
+
+	for (const [domain, row] of previousMap) {
+		if (!currentMap.has(domain)) push(domain, "revoked", row.type, null);
+	}
+
+	return changes.sort(
+		(a, b) => a.domain.localeCompare(b.domain) || a.kind.localeCompare(b.kind),
+	);
+}
+
+export function saveChanges(
+	publication: Publication,
+	changes: RootZoneChange[],
+	sources: string[] = [],
+): void {
+	publication.write([
+		{
+			name: "changes",
+			data: changes,
+			sources,
+			headers: ["Date", "Domain", "Change", "Previous", "Current"],
+			rows: changes.map((c) => [
+				c.date,
+				c.domain,
+				c.kind,
+				c.previous ?? "",
+				c.current ?? "",
+			]),
+		},
+	]);
+
+	// Keep a running log so older changes survive the daily overwrite
+	if (changes.length > 0) {
+		FileWriter.appendJsonLines(`${publication.dir}/changes-history.jsonl`, changes);
+	}
+}
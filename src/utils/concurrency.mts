@@ -0,0 +1,24 @@
+import { sleep } from "./fetcher.mts";
+
+// Utility function to process items in batches with concurrency control
+export async function processInBatches<T, R>(
+	items: T[],
+	processor: (item: T) => Promise<R>,
+	batchSize: number,
+	delayBetweenBatches: number = 0
+): Promise<R[]> {
+	const results: R[] = [];
+	
+	for (let i = 0; i < items.length; i += batchSize) {
+		const batch = items.slice(i, i + batchSize);
+		const batchResults = await Promise.all(batch.map(processor));
+		results.push(...batchResults);
+		
+		// Add delay between batches if specified
+		if (delayBetweenBatches > 0 && i + batchSize < items.length) {
+			await sleep(delayBetweenBatches);
+		}
+	}
+	
+	return results;
+}
@@ -1,7 +1,11 @@
-import { Client } from 'pg';
+import { Pool, type PoolClient, type QueryResult } from 'pg';
+import { migrations } from '../migrations/index.mts';
+import { Migrator, postgresTarget } from './migrator.mts';
+
+const POOL_SIZE = parseInt(process.env.DB_POOL_SIZE || '10', 10);
 
 export class Database {
-  private client: Client | null = null;
+  private pool: Pool | null = null;
 
   static hasConfig(): boolean {
     return !!(process.env.DATABASE_URL);
@@ -11,68 +15,67 @@ export class Database {
     if (!Database.hasConfig()) {
       throw new Error('Database configuration not found in environment variables');
     }
+    if (!/^postgres(ql)?:\/\//.test(process.env.DATABASE_URL!)) {
+      throw new Error('DATABASE_URL must be a postgres:// or postgresql:// URL');
+    }
 
-    this.client = new Client({
+    this.pool = new Pool({
       connectionString: process.env.DATABASE_URL,
-      ssl: process.env.DB_SSL === 'true' ? { rejectUnauthorized: false } : false
+      ssl: process.env.DB_SSL === 'true' ? { rejectUnauthorized: false } : false,
+      max: POOL_SIZE,
     });
   }
 
   async connect(): Promise<void> {
-    if (!this.client) throw new Error('Database client not initialized');
-    await this.client.connect();
+    // Fail early on bad credentials rather than on the first query
+    const client = await this.getPool().connect();
+    client.release();
     console.log('✅ Connected to PostgreSQL database');
   }
 
   async disconnect(): Promise<void> {
-    if (this.client) {
-      await this.client.end();
+    if (this.pool) {
+      await this.pool.end();
       console.log('✅ Disconnected from database');
     }
   }
 
-  getClient(): Client {
-    if (!this.client) throw new Error('Database client not initialized');
-    return this.client;
+  /**
+   * Runs a single statement on any free connection of the pool.
+   */
+  query(text: string, params?: unknown[]): Promise<QueryResult> {
+    return this.getPool().query(text, params);
   }
 
-  async initializeTables(): Promise<void> {
-    const client = this.getClient();
-    
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS tlds (
-        id SERIAL PRIMARY KEY,
-        domain VARCHAR(255) NOT NULL UNIQUE,
-        type VARCHAR(50),
-        tld_manager TEXT,
-        rdap_urls JSONB,
-        dnssec BOOLEAN DEFAULT FALSE,
-        search_available BOOLEAN DEFAULT FALSE,
-        zone_file_size BIGINT,
-        domain_count BIGINT,
-        last_updated TIMESTAMP DEFAULT NOW(),
-        created_at TIMESTAMP DEFAULT NOW()
-      )
-    `);
-
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS zone_domains (
-        id BIGSERIAL PRIMARY KEY,
-        tld_id INTEGER REFERENCES tlds(id),
-        domain_name VARCHAR(253) NOT NULL,
-        is_available BOOLEAN DEFAULT TRUE,
-        first_seen TIMESTAMP DEFAULT NOW(),
-        last_seen TIMESTAMP DEFAULT NOW(),
-        created_at TIMESTAMP DEFAULT NOW(),
-        UNIQUE(tld_id, domain_name)
-      )
-    `);
+  /**
+   * Runs `fn` inside a transaction on a dedicated connection, rolling back if
+   * it throws. Transactions run in parallel up to `DB_POOL_SIZE`.
+   */
+  async transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getPool().connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
 
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_zone_domains_name 
-      ON zone_domains(domain_name)
-    `);
+  /**
+   * Brings the schema up to date by applying any pending migrations.
+   */
+  async initializeTables(): Promise<void> {
+    const applied = await new Migrator(postgresTarget(this), migrations).migrate();
+    console.log(`✅ Database schema up to date (${applied.length} migrations applied)`);
+  }
 
-    console.log('✅ Database tables initialized');
+  private getPool(): Pool {
+    if (!this.pool) throw new Error('Database client not initialized');
+    return this.pool;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,151 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import readline from "readline";
+import { FileWriter } from "./file-writer.mts";
+import type { Publication } from "./publisher.mts";
+import { createFileSink, type DomainSink } from "./zone-stream.mts";
+
+export interface DomainDiff {
+	added: string[];
+	removed: string[];
+}
+
+export interface DomainFeedSummary {
+	tld: string;
+	added: number;
+	removed: number;
+}
+
+// Each partition is diffed in memory, so keep them to a manageable size
+const PARTITION_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Compares two one-domain-per-line files. Large files are split into hash
+ * partitions first so only one partition is ever held in memory.
+ */
+export async function diffDomainFiles(
+	previousPath: string,
+	currentPath: string,
+): Promise<DomainDiff> {
+	const largest = Math.max(
+		fs.statSync(previousPath).size,
+		fs.statSync(currentPath).size,
+	);
+	const partitions = Math.max(1, Math.ceil(largest / PARTITION_BYTES));
+
+	if (partitions === 1) {
+		return diffSets(await readDomains(previousPath), await readDomains(currentPath));
+	}
+
+	const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "domain-diff-"));
+	try {
+		const previousParts = await partitionFile(previousPath, tmpDir, "prev", partitions);
+		const currentParts = await partitionFile(currentPath, tmpDir, "curr", partitions);
+		const diff: DomainDiff = { added: [], removed: [] };
+
+		for (let i = 0; i < partitions; i++) {
+			const part = diffSets(
+				await readDomains(previousParts[i]),
+				await readDomains(currentParts[i]),
+			);
+			diff.added.push(...part.added);
+			diff.removed.push(...part.removed);
+		}
+
+		diff.added.sort();
+		diff.removed.sort();
+		return diff;
+	} finally {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	}
+}
+
+export function saveDomainFeed(
+	dataDir: string,
+	tld: string,
+	diff: DomainDiff,
+	date: string = new Date().toISOString().slice(0, 10),
+): void {
+	const tldDir = path.join(dataDir, tld);
+	FileWriter.ensureDirectory(tldDir);
+	fs.writeFileSync(path.join(tldDir, `added-${date}.txt`), toLines(diff.added));
+	fs.writeFileSync(path.join(tldDir, `removed-${date}.txt`), toLines(diff.removed));
+}
+
+export function saveFeedSummary(
+	publication: Publication,
+	summaries: DomainFeedSummary[],
+	date: string = new Date().toISOString().slice(0, 10),
+): void {
+	const tlds = [...summaries].sort((a, b) => a.tld.localeCompare(b.tld));
+	publication.write([
+		{
+			name: `summary-${date}`,
+			data: {
+				date,
+				added: tlds.reduce((sum, s) => sum + s.added, 0),
+				removed: tlds.reduce((sum, s) => sum + s.removed, 0),
+				tlds,
+			},
+			records: tlds,
+			headers: ["TLD", "Added", "Removed"],
+			rows: tlds.map((s) => [s.tld, s.added, s.removed]),
+		},
+	]);
+}
+
+function diffSets(previous: Set<string>, current: Set<string>): DomainDiff {
+	const added = Array.from(current).filter((d) => !previous.has(d));
+	const removed = Array.from(previous).filter((d) => !current.has(d));
+	return { added: added.sort(), removed: removed.sort() };
+}
+
+async function readDomains(filePath: string): Promise<Set<string>> {
+	const domains = new Set<string>();
+	const lines = readline.createInterface({
+		input: fs.createReadStream(filePath),
+		crlfDelay: Infinity,
+	});
+	for await (const line of lines) {
+		if (line) domains.add(line);
+	}
+	return domains;
+}
+
+async function partitionFile(
+	filePath: string,
+	tmpDir: string,
+	prefix: string,
+	partitions: number,
+): Promise<string[]> {
+	const paths = Array.from({ length: partitions }, (_, i) =>
+		path.join(tmpDir, `${prefix}-${i}.txt`),
+	);
+	const sinks: DomainSink[] = paths.map((p) => createFileSink(p));
+	const lines = readline.createInterface({
+		input: fs.createReadStream(filePath),
+		crlfDelay: Infinity,
+	});
+
+	for await (const line of lines) {
+		if (line) await sinks[hash(line) % partitions].write(line);
+	}
+	await Promise.all(sinks.map((sink) => sink.close()));
+
+	return paths;
+}
+
+// FNV-1a, only needs to spread names evenly across partitions
+function hash(value: string): number {
+	let h = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		h ^= value.charCodeAt(i);
+		h = Math.imul(h, 0x01000193);
+	}
+	return h >>> 0;
+}
+
+function toLines(domains: string[]): string {
+	return domains.length > 0 ? `${domains.join("\n")}\n` : "";
+}
@@ -1,43 +1,235 @@
 import https from 'https';
-import fetch from 'node-fetch';
+import fetch, { Response } from 'node-fetch';
+import { PassThrough } from 'stream';
+import {
+  conditionalHeaders,
+  isHttpCacheEnabled,
+  replayNotModified,
+  storeResponse,
+  type HttpCacheMode,
+} from './http-cache.mts';
 
 export const httpsAgent = new https.Agent({ family: 4 });
 
+export interface RetryPolicy {
+  maxRetries: number;
+  /** First backoff delay, doubled on every further attempt */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Fraction of each delay that is randomised, 0 disables jitter */
+  jitter: number;
+  /** Aborts when no headers or body data arrive for this long */
+  timeoutMs: number;
+  /** Upper bound for waits requested through Retry-After */
+  maxRetryAfterMs: number;
+  /** Requests in flight per host, until their body is consumed */
+  hostConcurrency: number;
+}
+
+// 'failures' logs retried and failed attempts, 'all' every attempt
+type FetchLogLevel = 'off' | 'failures' | 'all';
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+let policy: RetryPolicy = {
+  maxRetries: parseInt(process.env.FETCH_MAX_RETRIES || '3', 10),
+  baseDelayMs: parseInt(process.env.FETCH_BASE_DELAY_MS || '1000', 10),
+  maxDelayMs: parseInt(process.env.FETCH_MAX_DELAY_MS || '30000', 10),
+  jitter: parseFloat(process.env.FETCH_JITTER || '0.5'),
+  timeoutMs: parseInt(process.env.FETCH_TIMEOUT_MS || '60000', 10),
+  maxRetryAfterMs: parseInt(process.env.FETCH_MAX_RETRY_AFTER_MS || '300000', 10),
+  hostConcurrency: parseInt(process.env.FETCH_HOST_CONCURRENCY || '8', 10),
+};
+const logLevel = (process.env.FETCH_LOG || 'failures') as FetchLogLevel;
+
+export class HttpStatusError extends Error {
+  constructor(
+    readonly status: number,
+    statusText: string,
+    readonly url: string,
+  ) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+export function configureRetryPolicy(overrides: Partial<RetryPolicy>): RetryPolicy {
+  const defined = Object.entries(overrides).filter(([, value]) => value !== undefined);
+  policy = { ...policy, ...Object.fromEntries(defined) };
+  return policy;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  return policy;
+}
+
+/**
+ * `options.cache` makes the request conditional on the version stored in the
+ * HTTP cache, see http-cache.mts for what a 304 resolves to. `validators`
+ * mode also needs `options.cacheConsumer`. `options.attemptHeaders` is called
+ * before every attempt, for headers that must not be reused, e.g. signatures.
+ */
 export async function fetchWithRetry(
-  url: string, 
-  options: any = {}, 
-  maxRetries: number = 3
-): Promise<import('node-fetch').Response> {
-  let retryCount = 0;
-  
-  while (retryCount <= maxRetries) {
+  url: string,
+  options: any = {},
+  retryPolicy: RetryPolicy = policy
+): Promise<Response> {
+  const { cache, cacheConsumer, attemptHeaders, ...fetchOptions } = options;
+  const cacheMode: HttpCacheMode | undefined = isHttpCacheEnabled() ? cache : undefined;
+  const headers = {
+    ...fetchOptions.headers,
+    ...(cacheMode ? conditionalHeaders(url, cacheConsumer) : {}),
+  };
+  const host = new URL(url).host;
+
+  for (let attempt = 1; ; attempt++) {
+    const release = await acquireHostSlot(host, retryPolicy.hostConcurrency);
+    const started = Date.now();
+    const controller = new AbortController();
+    let timer = setTimeout(() => controller.abort(), retryPolicy.timeoutMs);
+    let retryAfterMs: number | null = null;
+    let error: Error;
+
     try {
-      const response = await fetch(url, { ...options, agent: httpsAgent });
-      
-      if (response.ok) {
-        return response;
-      }
+      // The IPv4 agent only applies to HTTPS, some RDAP servers are plain HTTP
+      const response = await fetch(url, {
+        ...fetchOptions,
+        headers: attemptHeaders ? { ...headers, ...attemptHeaders() } : headers,
+        signal: controller.signal,
+        agent: (parsedUrl: URL) => parsedUrl.protocol === 'https:' ? httpsAgent : undefined,
+      });
 
-      if (response.status >= 500 && retryCount < maxRetries) {
-        retryCount++;
-        await sleep(5000);
-        continue;
+      if (cacheMode && response.status === 304) {
+        logAttempt('all', { url, attempt, status: 304, durationMs: Date.now() - started });
+        clearTimeout(timer);
+        response.body?.resume();
+        release();
+        return replayNotModified(url, response);
       }
 
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (response.ok) {
+        logAttempt('all', { url, attempt, status: response.status, durationMs: Date.now() - started });
 
-    } catch (error) {
-      if (retryCount >= maxRetries) {
-        throw error;
+        // Keep the idle timeout and the host slot until the body is consumed
+        const monitored = monitorBody(response, retryPolicy.timeoutMs, controller, timer, release);
+        return cacheMode ? storeResponse(url, monitored, cacheMode) : monitored;
       }
-      retryCount++;
-      await sleep(5000);
+
+      clearTimeout(timer);
+      response.body?.resume();
+      release();
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      error = new HttpStatusError(response.status, response.statusText, url);
+    } catch (caught) {
+      clearTimeout(timer);
+      release();
+      error = controller.signal.aborted
+        ? new Error(`Request timed out after ${retryPolicy.timeoutMs}ms without data`)
+        : caught as Error;
+    }
+
+    const retryable = !(error instanceof HttpStatusError) || RETRYABLE_STATUSES.has(error.status);
+    const status = error instanceof HttpStatusError ? error.status : null;
+
+    if (!retryable || attempt > retryPolicy.maxRetries) {
+      logAttempt('failures', { url, attempt, status, error: error.message, durationMs: Date.now() - started, final: true });
+      throw error;
     }
+
+    const delayMs = retryAfterMs !== null && (status === 429 || status === 503)
+      ? Math.min(retryAfterMs, retryPolicy.maxRetryAfterMs)
+      : backoffDelay(attempt, retryPolicy);
+    logAttempt('failures', { url, attempt, status, error: error.message, durationMs: Date.now() - started, retryInMs: delayMs });
+    await sleep(delayMs);
   }
-  
-  throw new Error(`Failed after ${maxRetries} retries`);
 }
 
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
-}
\ No newline at end of file
+}
+
+function backoffDelay(attempt: number, retryPolicy: RetryPolicy): number {
+  const delay = Math.min(retryPolicy.maxDelayMs, retryPolicy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (1 - retryPolicy.jitter * Math.random()));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Re-wraps the body so every chunk resets the idle timeout, and frees the
+ * host slot once the body ends, fails or is abandoned.
+ */
+function monitorBody(
+  response: Response,
+  timeoutMs: number,
+  controller: AbortController,
+  timer: NodeJS.Timeout,
+  release: () => void,
+): Response {
+  clearTimeout(timer);
+  if (!response.body) {
+    release();
+    return response;
+  }
+  timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  const body = new PassThrough();
+  const done = () => {
+    clearTimeout(timer);
+    release();
+  };
+  response.body.on('data', () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(), timeoutMs);
+  });
+  response.body.on('error', (error) => body.destroy(error));
+  body.on('close', done);
+  body.on('end', done);
+  response.body.pipe(body);
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+const hostSlots = new Map<string, { active: number; waiting: (() => void)[] }>();
+
+async function acquireHostSlot(host: string, limit: number): Promise<() => void> {
+  let slots = hostSlots.get(host);
+  if (!slots) {
+    slots = { active: 0, waiting: [] };
+    hostSlots.set(host, slots);
+  }
+
+  if (slots.active >= limit) {
+    await new Promise<void>(resolve => slots!.waiting.push(resolve));
+  } else {
+    slots.active++;
+  }
+
+  // A slot is handed straight to the next waiter, so `active` stays counted
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const next = slots!.waiting.shift();
+    if (next) next();
+    else slots!.active--;
+  };
+}
+
+function logAttempt(level: Exclude<FetchLogLevel, 'off'>, entry: Record<string, unknown>): void {
+  if (logLevel === 'off' || (level === 'all' && logLevel !== 'all')) return;
+  const line = JSON.stringify({ event: 'fetch', time: new Date().toISOString(), ...entry });
+  if (level === 'failures') console.warn(line);
+  else console.log(line);
+}
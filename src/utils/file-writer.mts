@@ -1,6 +1,7 @@
 import { stringify } from "csv-stringify/sync";
 import fs from "fs";
 import path from "path";
+import YAML from "yaml";
 
 export class FileWriter {
 	static ensureDirectory(dirPath: string): void {
@@ -20,4 +21,20 @@ export class FileWriter {
 		const csv = stringify(csvData);
 		fs.writeFileSync(filePath, csv);
 	}
-}
+
+	static writeJsonLines(filePath: string, rows: any[]): void {
+		FileWriter.ensureDirectory(path.dirname(filePath));
+		fs.writeFileSync(filePath, rows.map((row) => `${JSON.stringify(row)}\n`).join(""));
+	}
+
+	static writeYaml(filePath: string, data: any): void {
+		FileWriter.ensureDirectory(path.dirname(filePath));
+		fs.writeFileSync(filePath, YAML.stringify(data));
+	}
+
+	static appendJsonLines(filePath: string, rows: any[]): void {
+		FileWriter.ensureDirectory(path.dirname(filePath));
+		const lines = rows.map((row) => JSON.stringify(row)).join("\n");
+		fs.appendFileSync(filePath, `${lines}\n`);
+	}
+}
\ No newline at end of file
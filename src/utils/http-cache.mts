@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import fs from "fs";
+import { Response } from "node-fetch";
+import path from "path";
+import { FileWriter } from "./file-writer.mts";
+
+const CACHE_DIR = process.env.HTTP_CACHE_DIR || "./.cache/http";
+const INDEX_FILE = path.join(CACHE_DIR, "index.json");
+
+/**
+ * `body` keeps the response so a 304 can be answered from disk, `validators`
+ * only keeps ETag/Last-Modified for downloads too large to store twice.
+ */
+export type HttpCacheMode = "body" | "validators";
+
+interface CacheEntry {
+	etag: string | null;
+	lastModified: string | null;
+	storedAt: string;
+	bodyFile: string | null;
+}
+
+interface CacheIndex {
+	entries: Record<string, CacheEntry>;
+	/** Version of each URL a consumer (job stage) last processed successfully */
+	consumers: Record<string, Record<string, string>>;
+}
+
+let enabled = true;
+let index: CacheIndex | null = null;
+// URLs fetched during this run, stale entries must not count as unchanged
+const fetched = new Set<string>();
+
+export function configureHttpCache(enable: boolean): void {
+	enabled = enable;
+}
+
+export function isHttpCacheEnabled(): boolean {
+	return enabled;
+}
+
+/**
+ * Headers that make the request conditional on the cached version. Without
+ * a stored body, a 304 is only useful when `consumer` already processed that
+ * version, otherwise there is nothing to fall back on.
+ */
+export function conditionalHeaders(
+	url: string,
+	consumer?: string,
+): Record<string, string> {
+	const entry = loadIndex().entries[url];
+	const committed =
+		consumer !== undefined &&
+		entry !== undefined &&
+		loadIndex().consumers[consumer]?.[url] === versionOf(entry);
+	if (!entry || (!entry.bodyFile && !committed)) return {};
+
+	const headers: Record<string, string> = {};
+	if (entry.etag) headers["If-None-Match"] = entry.etag;
+	if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+	return headers;
+}
+
+/**
+ * Answers a 304 from the cache: the stored body in `body` mode, otherwise
+ * the 304 itself for the caller to skip on.
+ */
+export function replayNotModified(url: string, response: Response): Response {
+	const entry = loadIndex().entries[url];
+	fetched.add(url);
+	if (!entry?.bodyFile) return response;
+
+	return new Response(fs.readFileSync(path.join(CACHE_DIR, entry.bodyFile)), {
+		status: 200,
+		headers: response.headers,
+	});
+}
+
+/**
+ * Stores the validators of a 200 response, and its body in `body` mode. The
+ * returned response must be used in place of the original.
+ */
+export async function storeResponse(
+	url: string,
+	response: Response,
+	mode: HttpCacheMode,
+): Promise<Response> {
+	const { entries } = loadIndex();
+	const etag = response.headers.get("etag");
+	const lastModified = response.headers.get("last-modified");
+	fetched.add(url);
+
+	if (!etag && !lastModified) {
+		if (entries[url]) {
+			delete entries[url];
+			saveIndex();
+		}
+		return response;
+	}
+
+	let bodyFile: string | null = null;
+	let result = response;
+
+	if (mode === "body") {
+		const buffer = Buffer.from(await response.arrayBuffer());
+		bodyFile = crypto.createHash("sha1").update(url).digest("hex");
+		FileWriter.ensureDirectory(CACHE_DIR);
+		fs.writeFileSync(path.join(CACHE_DIR, bodyFile), buffer);
+		result = new Response(buffer, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	}
+
+	entries[url] = {
+		etag,
+		lastModified,
+		storedAt: new Date().toISOString(),
+		bodyFile,
+	};
+	saveIndex();
+	return result;
+}
+
+/**
+ * True when `url` was fetched in this run and still has the version
+ * `consumer` last committed.
+ */
+export function isUnchanged(consumer: string, url: string): boolean {
+	const entry = loadIndex().entries[url];
+	return (
+		fetched.has(url) &&
+		entry !== undefined &&
+		loadIndex().consumers[consumer]?.[url] === versionOf(entry)
+	);
+}
+
+/**
+ * Records the fetched versions of `urls` as processed by `consumer`, call
+ * once the stage has published what it fetched.
+ */
+export function commitHttpCache(consumer: string, urls: string[]): void {
+	const cache = loadIndex();
+	const versions = (cache.consumers[consumer] ??= {});
+	urls.forEach((url) => {
+		const entry = cache.entries[url];
+		if (entry && fetched.has(url)) versions[url] = versionOf(entry);
+	});
+	saveIndex();
+}
+
+function versionOf(entry: CacheEntry): string {
+	return `${entry.etag ?? ""}|${entry.lastModified ?? ""}`;
+}
+
+function loadIndex(): CacheIndex {
+	if (!index) {
+		try {
+			index = JSON.parse(fs.readFileSync(INDEX_FILE, "utf-8")) as CacheIndex;
+		} catch {
+			index = { entries: {}, consumers: {} };
+		}
+	}
+	return index;
+}
+
+function saveIndex(): void {
+	FileWriter.writeJson(INDEX_FILE, index);
+}
@@ -0,0 +1,134 @@
+import * as cheerio from "cheerio";
+import { domainToASCII, domainToUnicode } from "url";
+import { fetchFromSource } from "./source.mts";
+
+export const IANA_IDN_TABLES_URL = "https://www.iana.org/domains/idn-tables";
+
+// IANA wraps right-to-left labels in direction marks when rendering them
+const BIDI_CONTROLS = /[\u200e\u200f\u202a-\u202e\u2066-\u2069]/g;
+
+// ISO 15924 codes for the scripts used by delegated IDN TLDs
+const SCRIPTS: [string, RegExp][] = [
+	["Latn", /\p{Script=Latin}/u],
+	["Cyrl", /\p{Script=Cyrillic}/u],
+	["Grek", /\p{Script=Greek}/u],
+	["Armn", /\p{Script=Armenian}/u],
+	["Geor", /\p{Script=Georgian}/u],
+	["Arab", /\p{Script=Arabic}/u],
+	["Hebr", /\p{Script=Hebrew}/u],
+	["Hani", /\p{Script=Han}/u],
+	["Hira", /\p{Script=Hiragana}/u],
+	["Kana", /\p{Script=Katakana}/u],
+	["Hang", /\p{Script=Hangul}/u],
+	["Thai", /\p{Script=Thai}/u],
+	["Laoo", /\p{Script=Lao}/u],
+	["Khmr", /\p{Script=Khmer}/u],
+	["Mymr", /\p{Script=Myanmar}/u],
+	["Tibt", /\p{Script=Tibetan}/u],
+	["Deva", /\p{Script=Devanagari}/u],
+	["Beng", /\p{Script=Bengali}/u],
+	["Guru", /\p{Script=Gurmukhi}/u],
+	["Gujr", /\p{Script=Gujarati}/u],
+	["Orya", /\p{Script=Oriya}/u],
+	["Taml", /\p{Script=Tamil}/u],
+	["Telu", /\p{Script=Telugu}/u],
+	["Knda", /\p{Script=Kannada}/u],
+	["Mlym", /\p{Script=Malayalam}/u],
+	["Sinh", /\p{Script=Sinhala}/u],
+	["Ethi", /\p{Script=Ethiopic}/u],
+];
+
+export interface IdnInfo {
+	/** A-label form with the leading dot, e.g. `.xn--p1ai` */
+	ascii: string;
+	/** U-label form with the leading dot, e.g. `.рф` */
+	unicode: string;
+	idn: boolean;
+	script: string | null;
+	languageTags: string[];
+}
+
+/**
+ * Converts a TLD in either form to its lowercase A-label without the dot.
+ */
+export function toALabel(tld: string): string {
+	const name = normalizeLabel(tld);
+	return domainToASCII(name) || name;
+}
+
+export function toULabel(tld: string): string {
+	const name = normalizeLabel(tld);
+	return domainToUnicode(domainToASCII(name) || name) || name;
+}
+
+export function describeTld(
+	tld: string,
+	idnTables: Map<string, string[]> = new Map(),
+): IdnInfo {
+	const ascii = toALabel(tld);
+	const unicode = toULabel(tld);
+	const idn = ascii.startsWith("xn--");
+
+	return {
+		ascii: `.${ascii}`,
+		unicode: `.${unicode}`,
+		idn,
+		script: idn ? detectScript(unicode) : null,
+		languageTags: idnTables.get(ascii) ?? [],
+	};
+}
+
+/**
+ * Returns the ISO 15924 script of a label. Han mixed with kana or Hangul is
+ * reported as `Jpan` or `Kore`, any other mix as the codes joined by `+`.
+ */
+export function detectScript(label: string): string | null {
+	const found = new Set<string>();
+	for (const char of label) {
+		const match = SCRIPTS.find(([, pattern]) => pattern.test(char));
+		if (match) found.add(match[0]);
+	}
+
+	if (found.has("Hira") || found.has("Kana")) return "Jpan";
+	if (found.has("Hang") && found.has("Hani")) return "Kore";
+	if (found.size === 0) return null;
+	return Array.from(found).sort().join("+");
+}
+
+/**
+ * Collects the language/script tags of the IDN tables IANA holds for each
+ * TLD, keyed by A-label. Table files are named `<tld>_<tag>_<version>.<ext>`.
+ * The metadata is optional, so a failed fetch yields an empty map.
+ */
+export async function fetchIdnTables(): Promise<Map<string, string[]>> {
+	const tables = new Map<string, string[]>();
+
+	try {
+		const response = await fetchFromSource(IANA_IDN_TABLES_URL, { cache: "body" });
+		const $ = cheerio.load(await response.text());
+
+		$("a[href*='/idn-tables/tables/']").each((_, el) => {
+			const file = ($(el).attr("href") ?? "").split("/").pop() ?? "";
+			const [tld, tag] = file.split("_");
+			if (!tld || !tag) return;
+
+			const ascii = toALabel(tld);
+			const tags = tables.get(ascii) ?? [];
+			if (!tags.includes(tag)) tags.push(tag);
+			tables.set(ascii, tags);
+		});
+	} catch (error) {
+		console.warn("⚠️ Could not fetch IANA IDN tables:", (error as Error).message);
+	}
+
+	return tables;
+}
+
+function normalizeLabel(tld: string): string {
+	return tld
+		.replace(BIDI_CONTROLS, "")
+		.trim()
+		.replace(/^\./, "")
+		.normalize("NFC")
+		.toLowerCase();
+}
@@ -0,0 +1,131 @@
+import fs from "fs";
+import path from "path";
+import { fetchWithRetry } from "./fetcher.mts";
+import { FileWriter } from "./file-writer.mts";
+import type { RunReport } from "./run-report.mts";
+
+// Pushgateway groups metrics by job name, one group per installation
+const PUSHGATEWAY_JOB = "tld_root_zone_db";
+
+interface Metric {
+	name: string;
+	help: string;
+	samples: { labels?: Record<string, string>; value: number }[];
+}
+
+/**
+ * Renders a run report in the Prometheus text exposition format, as read by
+ * the node_exporter textfile collector and the Pushgateway.
+ */
+export function formatMetrics(report: RunReport): string {
+	const jobs = report.jobs;
+	const metrics: Metric[] = [
+		{
+			name: "tld_ingest_run_success",
+			help: "Whether the last run succeeded (1) or failed (0)",
+			samples: [{ value: report.exitCode === 0 ? 1 : 0 }],
+		},
+		{
+			name: "tld_ingest_run_exit_code",
+			help: "Exit code of the last run",
+			samples: [{ value: report.exitCode }],
+		},
+		{
+			name: "tld_ingest_run_timestamp_seconds",
+			help: "When the last run finished",
+			samples: [{ value: Date.parse(report.finishedAt) / 1000 }],
+		},
+		{
+			name: "tld_ingest_run_duration_seconds",
+			help: "Duration of the last run",
+			samples: [{ value: report.durationMs / 1000 }],
+		},
+		{
+			name: "tld_ingest_job_success",
+			help: "Whether the job completed without throwing",
+			samples: jobs.map((j) => ({ labels: { job: j.job }, value: j.error ? 0 : 1 })),
+		},
+		{
+			name: "tld_ingest_job_duration_seconds",
+			help: "Duration of the job in the last run",
+			samples: jobs.map((j) => ({ labels: { job: j.job }, value: j.durationMs / 1000 })),
+		},
+		{
+			name: "tld_ingest_job_fetches",
+			help: "Upstream requests made by the job",
+			samples: jobs.map((j) => ({ labels: { job: j.job }, value: j.fetches.length })),
+		},
+		{
+			name: "tld_ingest_job_fetch_bytes",
+			help: "Response body bytes read by the job",
+			samples: jobs.map((j) => ({
+				labels: { job: j.job },
+				value: j.fetches.reduce((sum, f) => sum + (f.bytes ?? 0), 0),
+			})),
+		},
+		{
+			name: "tld_ingest_job_records_written",
+			help: "Records written by the job, per target",
+			samples: jobs.flatMap((j) =>
+				(["files", "database"] as const).map((target) => ({
+					labels: { job: j.job, target },
+					value: j.recordsWritten[target],
+				})),
+			),
+		},
+		{
+			name: "tld_ingest_job_tlds",
+			help: "Per-TLD imports of the job, per outcome",
+			samples: jobs.flatMap((j) =>
+				(["succeeded", "unchanged", "failed"] as const).map((outcome) => ({
+					labels: { job: j.job, outcome },
+					value: j.tlds[outcome],
+				})),
+			),
+		},
+	];
+
+	// Every value describes the last run, so they are all gauges
+	const lines = metrics
+		.filter((m) => m.samples.length > 0)
+		.flatMap((m) => [
+			`# HELP ${m.name} ${m.help}`,
+			`# TYPE ${m.name} gauge`,
+			...m.samples.map((s) => `${m.name}${formatLabels(s.labels)} ${s.value}`),
+		]);
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes the metrics for the textfile collector. The file is renamed into
+ * place so the collector never reads a partial file.
+ */
+export function writeMetricsFile(filePath: string, report: RunReport): void {
+	FileWriter.ensureDirectory(path.dirname(filePath));
+	const tmpPath = `${filePath}.tmp`;
+	fs.writeFileSync(tmpPath, formatMetrics(report));
+	fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Replaces the metrics of this job on a Pushgateway, e.g.
+ * `http://localhost:9091`.
+ */
+export async function pushMetrics(gatewayUrl: string, report: RunReport): Promise<void> {
+	const url = `${gatewayUrl.replace(/\/$/, "")}/metrics/job/${PUSHGATEWAY_JOB}`;
+	const response = await fetchWithRetry(url, {
+		method: "PUT",
+		headers: { "Content-Type": "text/plain; version=0.0.4" },
+		body: formatMetrics(report),
+	});
+	response.body?.resume();
+}
+
+function formatLabels(labels?: Record<string, string>): string {
+	if (!labels) return "";
+	const pairs = Object.entries(labels).map(
+		([key, value]) =>
+			`${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+	);
+	return `{${pairs.join(",")}}`;
+}
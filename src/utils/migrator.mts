@@ -0,0 +1,139 @@
+import type { Database } from "./database.mts";
+
+/** Runs one statement with `$1`-style parameters and returns its rows */
+export type MigrationQuery = (sql: string, params?: unknown[]) => Promise<any[]>;
+
+export interface MigrationClient {
+	query: MigrationQuery;
+	/** Runs a script of one or more statements */
+	exec(sql: string): Promise<void>;
+}
+
+/**
+ * The backend a Migrator runs against. Transactions must exclude concurrent
+ * migrators, so a migration is never applied twice.
+ */
+export interface MigrationTarget {
+	transaction<T>(fn: (client: MigrationClient) => Promise<T>): Promise<T>;
+}
+
+export interface Migration {
+	version: number;
+	name: string;
+	/** SQL, or code for changes SQL can't express */
+	up: string | ((query: MigrationQuery) => Promise<void>);
+}
+
+export interface MigrationStatus {
+	version: number;
+	name: string;
+	appliedAt: Date | null;
+}
+
+// Arbitrary key so concurrent runs don't apply the same migration twice
+const MIGRATION_LOCK_ID = 7_246_001;
+
+export class Migrator {
+	constructor(
+		private readonly target: MigrationTarget,
+		private readonly migrations: Migration[],
+	) {
+		const versions = migrations.map((m) => m.version);
+		if (versions.some((v, i) => i > 0 && v <= versions[i - 1])) {
+			throw new Error("Migration versions must be strictly increasing");
+		}
+	}
+
+	async status(): Promise<MigrationStatus[]> {
+		const applied = await this.appliedVersions();
+		return this.migrations.map(({ version, name }) => ({
+			version,
+			name,
+			appliedAt: applied.get(version) ?? null,
+		}));
+	}
+
+	/**
+	 * Applies every pending migration, each in its own transaction. A failing
+	 * migration is rolled back and stops the run. Returns the migrations this
+	 * call applied, not those a concurrent run got to first.
+	 */
+	async migrate(): Promise<Migration[]> {
+		const applied = await this.appliedVersions();
+		const pending = this.migrations.filter((m) => !applied.has(m.version));
+		const ran: Migration[] = [];
+
+		for (const migration of pending) {
+			const didApply = await this.target.transaction(async (client) => {
+				// Another process may have applied it while we waited for the lock
+				const existing = await client.query(
+					"SELECT 1 FROM schema_migrations WHERE version = $1",
+					[migration.version],
+				);
+				if (existing.length > 0) return false;
+
+				try {
+					if (typeof migration.up === "string") {
+						await client.exec(migration.up);
+					} else {
+						await migration.up(client.query);
+					}
+				} catch (error) {
+					throw new Error(
+						`Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`,
+					);
+				}
+
+				await client.query(
+					"INSERT INTO schema_migrations (version, name) VALUES ($1, $2)",
+					[migration.version, migration.name],
+				);
+				return true;
+			});
+			if (!didApply) continue;
+
+			ran.push(migration);
+			console.log(`  ✅ Applied migration ${migration.version} (${migration.name})`);
+		}
+
+		return ran;
+	}
+
+	private async appliedVersions(): Promise<Map<number, Date>> {
+		const rows = await this.target.transaction(async (client) => {
+			await client.exec(`
+				CREATE TABLE IF NOT EXISTS schema_migrations (
+					version INTEGER PRIMARY KEY,
+					name VARCHAR(255) NOT NULL,
+					applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+				)
+			`);
+			return client.query("SELECT version, applied_at FROM schema_migrations");
+		});
+		return new Map(rows.map((row) => [Number(row.version), toDate(row.applied_at)]));
+	}
+}
+
+/**
+ * Runs migrations on PostgreSQL, holding an advisory lock for the length of
+ * each transaction.
+ */
+export function postgresTarget(db: Database): MigrationTarget {
+	return {
+		transaction: (fn) =>
+			db.transaction(async (client) => {
+				await client.query("SELECT pg_advisory_xact_lock($1)", [MIGRATION_LOCK_ID]);
+				return fn({
+					query: async (sql, params) => (await client.query(sql, params)).rows,
+					exec: async (sql) => {
+						await client.query(sql);
+					},
+				});
+			}),
+	};
+}
+
+// SQLite returns CURRENT_TIMESTAMP as UTC text without a zone
+function toDate(value: Date | string): Date {
+	return value instanceof Date ? value : new Date(`${value.replace(" ", "T")}Z`);
+}
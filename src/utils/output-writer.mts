@@ -0,0 +1,148 @@
+import Sqlite from "better-sqlite3";
+import path from "path";
+import { FileWriter } from "./file-writer.mts";
+
+/**
+ * One published dataset. JSON, YAML and NDJSON serialise the document,
+ * CSV and SQLite the flattened tabular view.
+ */
+export interface Dataset {
+	/** File name without extension, also the SQLite table name */
+	name: string;
+	data: unknown;
+	/** One NDJSON line each, defaults to `data` when it is an array */
+	records?: unknown[];
+	headers: string[];
+	rows: unknown[][];
+	/** Upstream URLs the dataset is built from, listed in the manifest */
+	sources?: string[];
+}
+
+export interface OutputWriter {
+	format: string;
+	/** Receives every dataset a job publishes to `dir` in one call */
+	write(dir: string, datasets: Dataset[]): void;
+}
+
+const DEFAULT_FORMATS = (process.env.OUTPUT_FORMATS || "json,csv").split(",");
+
+// SQLite columns that get an index when a table has them
+const INDEXED_COLUMNS = ["domain", "tld", "nameserver", "suffix"];
+
+const writers = new Map<string, OutputWriter>();
+let activeFormats: string[] = withJson(DEFAULT_FORMATS);
+
+export function registerWriter(writer: OutputWriter): void {
+	writers.set(writer.format, writer);
+}
+
+/**
+ * Selects the formats `writeDatasets` produces, e.g. from `--formats`. JSON is
+ * always included: later runs diff against it and the file server reads it.
+ */
+export function configureFormats(formats: string[] = DEFAULT_FORMATS): void {
+	const selected = formats.map((f) => f.trim().toLowerCase()).filter(Boolean);
+	const unknown = selected.filter((f) => !writers.has(f));
+	if (unknown.length > 0) {
+		throw new Error(
+			`Unknown output format: ${unknown.join(", ")} (available: ${Array.from(writers.keys()).join(", ")})`,
+		);
+	}
+	activeFormats = withJson(selected);
+}
+
+export function getFormats(): string[] {
+	return activeFormats;
+}
+
+function withJson(formats: string[]): string[] {
+	return formats.includes("json") ? formats : ["json", ...formats];
+}
+
+export function writeDatasets(dir: string, datasets: Dataset[]): void {
+	activeFormats.forEach((format) => {
+		writers.get(format)!.write(dir, datasets);
+	});
+}
+
+registerWriter({
+	format: "json",
+	write: (dir, datasets) =>
+		datasets.forEach((d) => FileWriter.writeJson(`${dir}/${d.name}.json`, d.data)),
+});
+
+registerWriter({
+	format: "csv",
+	write: (dir, datasets) =>
+		datasets.forEach((d) =>
+			FileWriter.writeCsv(`${dir}/${d.name}.csv`, d.rows, d.headers),
+		),
+});
+
+registerWriter({
+	format: "ndjson",
+	write: (dir, datasets) =>
+		datasets.forEach((d) =>
+			FileWriter.writeJsonLines(
+				`${dir}/${d.name}.ndjson`,
+				d.records ?? (Array.isArray(d.data) ? d.data : [d.data]),
+			),
+		),
+});
+
+registerWriter({
+	format: "yaml",
+	write: (dir, datasets) =>
+		datasets.forEach((d) => FileWriter.writeYaml(`${dir}/${d.name}.yaml`, d.data)),
+});
+
+/**
+ * Writes every dataset of a directory into `<dir>/<dir name>.sqlite`. Tables
+ * are replaced one by one, so jobs can publish their datasets in several calls.
+ */
+registerWriter({
+	format: "sqlite",
+	write: (dir, datasets) => {
+		FileWriter.ensureDirectory(dir);
+		const db = new Sqlite(path.join(dir, `${path.basename(dir)}.sqlite`));
+
+		try {
+			db.transaction(() => datasets.forEach((d) => writeTable(db, d)))();
+		} finally {
+			db.close();
+		}
+	},
+});
+
+function writeTable(db: Sqlite.Database, dataset: Dataset): void {
+	const table = toIdentifier(dataset.name);
+	const columns = dataset.headers.map(toIdentifier);
+
+	db.exec(`DROP TABLE IF EXISTS "${table}"`);
+	db.exec(`CREATE TABLE "${table}" (${columns.map((c) => `"${c}"`).join(", ")})`);
+
+	const insert = db.prepare(
+		`INSERT INTO "${table}" VALUES (${columns.map(() => "?").join(", ")})`,
+	);
+	dataset.rows.forEach((row) => insert.run(row.map(toSqliteValue)));
+
+	columns
+		.filter((c) => INDEXED_COLUMNS.includes(c))
+		.forEach((c) => {
+			db.exec(`CREATE INDEX "idx_${table}_${c}" ON "${table}" ("${c}")`);
+		});
+}
+
+function toIdentifier(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "_")
+		.replace(/^_|_$/g, "");
+}
+
+function toSqliteValue(value: unknown): unknown {
+	if (value === undefined || value === null || value === "") return null;
+	if (typeof value === "boolean") return value ? 1 : 0;
+	if (typeof value === "object") return JSON.stringify(value);
+	return value;
+}
@@ -0,0 +1,107 @@
+import { domainToASCII } from "url";
+import { fetchFromSource } from "./source.mts";
+
+export const PUBLIC_SUFFIX_LIST_URL =
+	"https://publicsuffix.org/list/public_suffix_list.dat";
+
+export type PublicSuffixSection = "icann" | "private";
+export type PublicSuffixKind = "normal" | "wildcard" | "exception";
+
+export interface PublicSuffixRule {
+	rule: string;
+	/** The rule without `*.` or `!`, in A-label form */
+	suffix: string;
+	tld: string;
+	section: PublicSuffixSection;
+	kind: PublicSuffixKind;
+}
+
+export async function fetchPublicSuffixList(): Promise<PublicSuffixRule[]> {
+	const response = await fetchFromSource(PUBLIC_SUFFIX_LIST_URL, { cache: "body" });
+	return parsePublicSuffixList(await response.text());
+}
+
+/**
+ * Parses `public_suffix_list.dat`, tracking which section each rule is in.
+ * Rules outside the BEGIN/END markers are ignored.
+ */
+export function parsePublicSuffixList(content: string): PublicSuffixRule[] {
+	const rules: PublicSuffixRule[] = [];
+	let section: PublicSuffixSection | null = null;
+
+	content.split("\n").forEach((rawLine) => {
+		const line = rawLine.trim();
+
+		const marker = line.match(/^\/\/ ===(BEGIN|END) (ICANN|PRIVATE) DOMAINS===/);
+		if (marker) {
+			section = marker[1] === "BEGIN" ? (marker[2].toLowerCase() as PublicSuffixSection) : null;
+			return;
+		}
+		if (!section || !line || line.startsWith("//")) return;
+
+		const rule = line.split(/\s+/)[0].toLowerCase();
+		const kind: PublicSuffixKind = rule.startsWith("!")
+			? "exception"
+			: rule.startsWith("*.")
+				? "wildcard"
+				: "normal";
+		const name = rule.replace(/^!/, "").replace(/^\*\./, "");
+		const suffix = domainToASCII(name) || name;
+
+		rules.push({
+			rule,
+			suffix,
+			tld: suffix.split(".").pop() as string,
+			section,
+			kind,
+		});
+	});
+
+	return rules;
+}
+
+/**
+ * A-label TLDs covered by at least one rule in the given section.
+ */
+export function tldsInSection(
+	rules: PublicSuffixRule[],
+	section: PublicSuffixSection,
+): Set<string> {
+	return new Set(rules.filter((r) => r.section === section).map((r) => r.tld));
+}
+
+/**
+ * Returns a function mapping a host name to its registrable domain (the
+ * public suffix plus one label) under the ICANN rules, e.g.
+ * `ns1.example.co.uk` to `example.co.uk`.
+ */
+export function createRegistrableDomainLookup(
+	rules: PublicSuffixRule[],
+): (host: string) => string {
+	const icann = rules.filter((r) => r.section === "icann");
+	const suffixes = (kind: PublicSuffixKind) =>
+		new Set(icann.filter((r) => r.kind === kind).map((r) => r.suffix));
+	const normal = suffixes("normal");
+	const wildcards = suffixes("wildcard");
+	const exceptions = suffixes("exception");
+
+	return (host) => {
+		const labels = host.split(".");
+		// Without a matching rule the TLD alone is the public suffix
+		let suffixStart = labels.length - 1;
+
+		for (let i = 0; i < labels.length; i++) {
+			const name = labels.slice(i).join(".");
+			if (exceptions.has(name)) {
+				suffixStart = i + 1;
+				break;
+			}
+			if (normal.has(name) || wildcards.has(labels.slice(i + 1).join("."))) {
+				suffixStart = i;
+				break;
+			}
+		}
+
+		return suffixStart === 0 ? host : labels.slice(suffixStart - 1).join(".");
+	};
+}
@@ -0,0 +1,217 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { FileWriter } from "./file-writer.mts";
+import { writeDatasets, type Dataset } from "./output-writer.mts";
+import { recordWrites } from "./run-report.mts";
+import { getFetchTime } from "./source.mts";
+
+const MANIFEST_FILE = "manifest.json";
+
+const generator = JSON.parse(
+	fs.readFileSync(new URL("../../package.json", import.meta.url), "utf-8"),
+) as { name: string; version: string };
+
+interface ManifestDataset {
+	name: string;
+	records: number;
+	files: string[];
+	sources: { url: string; fetchedAt: string | null }[];
+}
+
+interface ManifestFile {
+	path: string;
+	size: number;
+	sha256: string;
+}
+
+export interface PublicationOptions {
+	/**
+	 * Top-level entries of the data directory that are written in place
+	 * rather than published, e.g. large working files. They are not staged or
+	 * listed in the manifest, and are carried over unchanged.
+	 */
+	exclude?: (name: string) => boolean;
+}
+
+export interface Manifest {
+	generator: { name: string; version: string };
+	generatedAt: string;
+	datasets: ManifestDataset[];
+	files: ManifestFile[];
+}
+
+/**
+ * Stages a job's output next to its data directory and swaps it in as a
+ * whole, so a crash mid-run never leaves a mix of old and new files. The
+ * staging directory starts as a copy of the current one, which keeps files
+ * that are appended to or only rewritten on some runs.
+ */
+export class Publication {
+	readonly dir: string;
+	private readonly backupDir: string;
+	private readonly datasets: ManifestDataset[] = [];
+	private readonly exclude: (name: string) => boolean;
+
+	constructor(
+		private readonly targetDir: string,
+		options: PublicationOptions = {},
+	) {
+		// Same parent keeps the renames on one filesystem, same basename keeps
+		// names derived from the directory (the SQLite bundle) stable
+		const parent = path.dirname(targetDir);
+		const base = path.basename(targetDir);
+		this.dir = path.join(parent, ".staging", base);
+		this.backupDir = path.join(parent, ".previous", base);
+		this.exclude = options.exclude ?? (() => false);
+
+		// A crash between the two renames in commit() leaves only the backup,
+		// one while carrying excluded entries over leaves some of them in it
+		if (!fs.existsSync(targetDir) && fs.existsSync(this.backupDir)) {
+			fs.renameSync(this.backupDir, targetDir);
+		} else if (fs.existsSync(this.backupDir)) {
+			this.carryExcluded();
+		}
+
+		fs.rmSync(this.dir, { recursive: true, force: true });
+		FileWriter.ensureDirectory(path.dirname(this.backupDir));
+		if (fs.existsSync(targetDir)) {
+			fs.cpSync(targetDir, this.dir, {
+				recursive: true,
+				filter: (source) => !this.isExcluded(path.relative(targetDir, source)),
+			});
+		} else {
+			FileWriter.ensureDirectory(this.dir);
+		}
+	}
+
+	write(datasets: Dataset[]): void {
+		writeDatasets(this.dir, datasets);
+
+		datasets.forEach((d) => {
+			const records =
+				d.records?.length ?? (Array.isArray(d.data) ? d.data.length : d.rows.length);
+			recordWrites("files", records);
+			this.datasets.push({
+				name: d.name,
+				records,
+				files: fs
+					.readdirSync(this.dir)
+					.filter((file) => path.parse(file).name === d.name)
+					.sort(),
+				sources: (d.sources ?? []).map((url) => ({
+					url,
+					fetchedAt: getFetchTime(url),
+				})),
+			});
+		});
+	}
+
+	commit(): Manifest {
+		const manifest: Manifest = {
+			generator: { name: generator.name, version: generator.version },
+			generatedAt: new Date().toISOString(),
+			datasets: this.mergedDatasets(),
+			files: listFiles(this.dir)
+				.filter((file) => file !== MANIFEST_FILE)
+				.map((file) => describeFile(this.dir, file)),
+		};
+		FileWriter.writeJson(path.join(this.dir, MANIFEST_FILE), manifest);
+
+		fs.rmSync(this.backupDir, { recursive: true, force: true });
+		if (fs.existsSync(this.targetDir)) {
+			fs.renameSync(this.targetDir, this.backupDir);
+		}
+		fs.renameSync(this.dir, this.targetDir);
+		this.carryExcluded();
+		fs.rmSync(this.backupDir, { recursive: true, force: true });
+		this.removeEmptyParents();
+
+		console.log(
+			`📦 Published ${manifest.files.length} files to ${this.targetDir} (${MANIFEST_FILE})`,
+		);
+		return manifest;
+	}
+
+	abort(): void {
+		fs.rmSync(this.dir, { recursive: true, force: true });
+		this.removeEmptyParents();
+	}
+
+	private isExcluded(relative: string): boolean {
+		return relative !== "" && !relative.includes(path.sep) && this.exclude(relative);
+	}
+
+	// Moves excluded entries from the backup into the published directory
+	private carryExcluded(): void {
+		if (!fs.existsSync(this.backupDir)) return;
+		fs.readdirSync(this.backupDir)
+			.filter((name) => this.isExcluded(name))
+			.forEach((name) => {
+				const target = path.join(this.targetDir, name);
+				if (!fs.existsSync(target)) {
+					fs.renameSync(path.join(this.backupDir, name), target);
+				}
+			});
+	}
+
+	private removeEmptyParents(): void {
+		[path.dirname(this.dir), path.dirname(this.backupDir)].forEach((dir) => {
+			if (fs.existsSync(dir) && fs.readdirSync(dir).length === 0) fs.rmdirSync(dir);
+		});
+	}
+
+	// Datasets written earlier in this run keep their previous manifest entry
+	private mergedDatasets(): ManifestDataset[] {
+		const previous = loadManifest(this.dir);
+		const written = new Set(this.datasets.map((d) => d.name));
+		return [
+			...(previous?.datasets ?? []).filter((d) => !written.has(d.name)),
+			...this.datasets,
+		].sort((a, b) => a.name.localeCompare(b.name));
+	}
+}
+
+/**
+ * Runs `fn` against a new publication of `targetDir` and swaps the result in,
+ * discarding the staged files if `fn` throws.
+ */
+export async function publish(
+	targetDir: string,
+	fn: (publication: Publication) => void | Promise<void>,
+	options: PublicationOptions = {},
+): Promise<Manifest> {
+	const publication = new Publication(targetDir, options);
+	try {
+		await fn(publication);
+	} catch (error) {
+		publication.abort();
+		throw error;
+	}
+	return publication.commit();
+}
+
+function loadManifest(dir: string): Manifest | null {
+	const file = path.join(dir, MANIFEST_FILE);
+	if (!fs.existsSync(file)) return null;
+	return JSON.parse(fs.readFileSync(file, "utf-8")) as Manifest;
+}
+
+function listFiles(dir: string, prefix = ""): string[] {
+	return fs
+		.readdirSync(path.join(dir, prefix), { withFileTypes: true })
+		.flatMap((entry) => {
+			const relative = path.posix.join(prefix, entry.name);
+			return entry.isDirectory() ? listFiles(dir, relative) : [relative];
+		})
+		.sort();
+}
+
+function describeFile(dir: string, file: string): ManifestFile {
+	const content = fs.readFileSync(path.join(dir, file));
+	return {
+		path: file,
+		size: content.length,
+		sha256: crypto.createHash("sha256").update(content).digest("hex"),
+	};
+}
@@ -0,0 +1,136 @@
+import fs from "fs";
+import net from "net";
+import { fetchFromSource } from "./source.mts";
+
+export const IANA_RDAP_BASE_URL = "https://data.iana.org/rdap";
+
+export type BootstrapRegistry = "ipv4" | "ipv6" | "asn" | "object-tags";
+
+export const BOOTSTRAP_REGISTRIES: BootstrapRegistry[] = [
+	"ipv4",
+	"ipv6",
+	"asn",
+	"object-tags",
+];
+
+export interface BootstrapFile {
+	version: string;
+	publication: string;
+	description?: string;
+	services: any[][];
+}
+
+interface IpPrefix {
+	network: bigint;
+	bits: number;
+	urls: string[];
+}
+
+interface AsnRange {
+	start: number;
+	end: number;
+	urls: string[];
+}
+
+export function bootstrapRegistryUrl(registry: BootstrapRegistry): string {
+	return `${IANA_RDAP_BASE_URL}/${registry}.json`;
+}
+
+export async function fetchBootstrapRegistry(
+	registry: BootstrapRegistry,
+): Promise<BootstrapFile> {
+	const response = await fetchFromSource(bootstrapRegistryUrl(registry), {
+		cache: "body",
+	});
+	return (await response.json()) as BootstrapFile;
+}
+
+/**
+ * Reads a published registry from `dir`, falling back to IANA when the local
+ * snapshot does not exist.
+ */
+export async function loadBootstrapRegistry(
+	registry: BootstrapRegistry,
+	dir: string,
+): Promise<BootstrapFile> {
+	const filePath = `${dir}/${registry}.json`;
+	return fs.existsSync(filePath)
+		? JSON.parse(fs.readFileSync(filePath, "utf-8"))
+		: fetchBootstrapRegistry(registry);
+}
+
+/**
+ * Resolves the RDAP base URLs for an IPv4 or IPv6 address using the longest
+ * matching prefix, per RFC 9224.
+ */
+export function findIpRdapUrls(ip: string, registry: BootstrapFile): string[] | null {
+	const version = net.isIP(ip);
+	if (version === 0) throw new Error(`Invalid IP address: ${ip}`);
+
+	const width = version === 4 ? 32 : 128;
+	const address = ipToBigInt(ip);
+	let best: IpPrefix | null = null;
+
+	for (const prefix of parseIpPrefixes(registry)) {
+		if (prefix.bits > width || (best && prefix.bits <= best.bits)) continue;
+		const shift = BigInt(width - prefix.bits);
+		if (address >> shift === prefix.network >> shift) best = prefix;
+	}
+
+	return best ? best.urls : null;
+}
+
+export function findAsnRdapUrls(asn: number, registry: BootstrapFile): string[] | null {
+	const match = parseAsnRanges(registry).find(
+		(range) => asn >= range.start && asn <= range.end,
+	);
+	return match ? match.urls : null;
+}
+
+function parseIpPrefixes(registry: BootstrapFile): IpPrefix[] {
+	return registry.services.flatMap(([prefixes, urls]) =>
+		(prefixes as string[]).map((cidr) => {
+			const [address, bits] = cidr.split("/");
+			return { network: ipToBigInt(address), bits: parseInt(bits, 10), urls };
+		}),
+	);
+}
+
+function parseAsnRanges(registry: BootstrapFile): AsnRange[] {
+	return registry.services.flatMap(([ranges, urls]) =>
+		(ranges as string[]).map((range) => {
+			const [start, end = start] = range.split("-");
+			return { start: parseInt(start, 10), end: parseInt(end, 10), urls };
+		}),
+	);
+}
+
+export function ipToBigInt(ip: string): bigint {
+	if (net.isIPv4(ip)) {
+		return ip
+			.split(".")
+			.reduce((acc, octet) => (acc << 8n) + BigInt(parseInt(octet, 10)), 0n);
+	}
+
+	// Expand an embedded IPv4 tail (::ffff:1.2.3.4) into two hextets
+	let address = ip.toLowerCase();
+	const ipv4Tail = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+	if (ipv4Tail) {
+		const value = ipToBigInt(ipv4Tail[1]);
+		address = address.replace(
+			ipv4Tail[1],
+			`${(value >> 16n).toString(16)}:${(value & 0xffffn).toString(16)}`,
+		);
+	}
+
+	const [head, tail] = address.split("::");
+	const headGroups = head ? head.split(":") : [];
+	const tailGroups = tail ? tail.split(":") : [];
+	const missing = 8 - headGroups.length - tailGroups.length;
+	const groups =
+		tail === undefined
+			? headGroups
+			: [...headGroups, ...Array(missing).fill("0"), ...tailGroups];
+
+	return groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group, 16)), 0n);
+}
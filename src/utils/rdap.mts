@@ -0,0 +1,183 @@
+import fs from "fs";
+import { domainToASCII } from "url";
+import { fetchFromSource } from "./source.mts";
+
+export const IANA_RDAP_BOOTSTRAP_URL = "https://data.iana.org/rdap/dns.json";
+
+export interface RdapDomainInfo {
+	domain: string;
+	handle: string | null;
+	registrar: string | null;
+	registrarIanaId: string | null;
+	status: string[];
+	created: string | null;
+	updated: string | null;
+	expires: string | null;
+	nameservers: string[];
+	/** RDAP URLs queried, registry first, then any registrar referral */
+	sources: string[];
+}
+
+interface LookupOptions {
+	followReferrals?: boolean;
+}
+
+export function createRdapMap(services: any[][]): Map<string, string[]> {
+	const rdapMap = new Map<string, string[]>();
+	services.forEach(([tlds, urls]) => {
+		tlds.forEach((tld: string) => {
+			rdapMap.set(tld.toLowerCase(), urls);
+		});
+	});
+	return rdapMap;
+}
+
+/**
+ * Loads a DNS bootstrap registry from a URL or a local file. Accepts both the
+ * IANA format and the bare services array published as `rdap.json`.
+ */
+export async function loadRdapBootstrap(
+	location: string = IANA_RDAP_BOOTSTRAP_URL,
+): Promise<Map<string, string[]>> {
+	const data = /^https?:\/\//.test(location)
+		? await (await fetchFromSource(location)).json()
+		: JSON.parse(fs.readFileSync(location, "utf-8"));
+
+	const services = Array.isArray(data) ? data : (data as any).services;
+	if (!Array.isArray(services)) {
+		throw new Error(`Invalid RDAP bootstrap data in ${location}`);
+	}
+	return createRdapMap(services);
+}
+
+/**
+ * Finds the RDAP base URLs for a domain using the longest matching suffix in
+ * the bootstrap map, as described in RFC 9224. HTTPS URLs are listed first.
+ */
+export function findRdapBaseUrls(
+	domain: string,
+	rdapMap: Map<string, string[]>,
+): string[] | null {
+	const labels = toAsciiName(domain).split(".");
+
+	for (let i = 0; i < labels.length; i++) {
+		const urls = rdapMap.get(labels.slice(i).join("."));
+		if (urls && urls.length > 0) {
+			return [...urls].sort(
+				(a, b) => Number(b.startsWith("https:")) - Number(a.startsWith("https:")),
+			);
+		}
+	}
+	return null;
+}
+
+export async function lookupDomain(
+	domain: string,
+	rdapMap: Map<string, string[]>,
+	options: LookupOptions = {},
+): Promise<RdapDomainInfo> {
+	// Bootstrap keys and RDAP queries use A-labels (RFC 9224)
+	const name = toAsciiName(domain);
+	const baseUrls = findRdapBaseUrls(name, rdapMap);
+	if (!baseUrls) {
+		throw new Error(`No RDAP service found for ${name}`);
+	}
+
+	const registryUrl = new URL(`domain/${name}`, withTrailingSlash(baseUrls[0])).href;
+	const registryData = await fetchRdap(registryUrl);
+	let info = normalizeDomainResponse(registryData, name, [registryUrl]);
+
+	const referral = options.followReferrals === false ? null : findReferral(registryData);
+	if (referral && referral !== registryUrl) {
+		try {
+			const registrarData = await fetchRdap(referral);
+			info = mergeInfo(info, normalizeDomainResponse(registrarData, name, [referral]));
+		} catch (error) {
+			// The registry answer is still useful when the registrar server fails
+			console.warn(`⚠️ Registrar RDAP referral ${referral} failed:`, (error as Error).message);
+		}
+	}
+
+	return info;
+}
+
+export function normalizeDomainResponse(
+	data: any,
+	domain: string,
+	sources: string[] = [],
+): RdapDomainInfo {
+	const registrar = (data.entities ?? []).find((entity: any) =>
+		(entity.roles ?? []).includes("registrar"),
+	);
+	const eventDate = (action: string) =>
+		(data.events ?? []).find((event: any) => event.eventAction === action)
+			?.eventDate ?? null;
+
+	return {
+		domain: (data.ldhName ?? domain).toLowerCase(),
+		handle: data.handle ?? null,
+		registrar: registrar ? vcardName(registrar) : null,
+		registrarIanaId:
+			registrar?.publicIds?.find((id: any) => id.type === "IANA Registrar ID")
+				?.identifier ?? null,
+		status: data.status ?? [],
+		created: eventDate("registration"),
+		updated: eventDate("last changed"),
+		expires: eventDate("expiration"),
+		nameservers: (data.nameservers ?? [])
+			.map((ns: any) => String(ns.ldhName ?? "").toLowerCase())
+			.filter(Boolean)
+			.sort(),
+		sources,
+	};
+}
+
+function toAsciiName(domain: string): string {
+	const name = domain.toLowerCase().replace(/\.$/, "");
+	return domainToASCII(name) || name;
+}
+
+async function fetchRdap(url: string): Promise<any> {
+	const response = await fetchFromSource(url, {
+		headers: { Accept: "application/rdap+json" },
+	});
+	return response.json();
+}
+
+// Registries point at the registrar's own RDAP record with a "related" link
+function findReferral(data: any): string | null {
+	const link = (data.links ?? []).find(
+		(l: any) =>
+			l.rel === "related" &&
+			typeof l.href === "string" &&
+			(!l.type || l.type.includes("application/rdap+json")),
+	);
+	return link?.href ?? null;
+}
+
+// Registrar data is more detailed, registry data wins where it is missing
+function mergeInfo(registry: RdapDomainInfo, registrar: RdapDomainInfo): RdapDomainInfo {
+	return {
+		domain: registry.domain,
+		handle: registry.handle ?? registrar.handle,
+		registrar: registrar.registrar ?? registry.registrar,
+		registrarIanaId: registry.registrarIanaId ?? registrar.registrarIanaId,
+		status: registry.status.length > 0 ? registry.status : registrar.status,
+		created: registry.created ?? registrar.created,
+		updated: registrar.updated ?? registry.updated,
+		expires: registry.expires ?? registrar.expires,
+		nameservers:
+			registry.nameservers.length > 0 ? registry.nameservers : registrar.nameservers,
+		sources: [...registry.sources, ...registrar.sources],
+	};
+}
+
+function vcardName(entity: any): string | null {
+	const properties: any[] = entity.vcardArray?.[1] ?? [];
+	const fn = properties.find((property) => property[0] === "fn");
+	return fn ? String(fn[3]) : (entity.handle ?? null);
+}
+
+function withTrailingSlash(url: string): string {
+	return url.endsWith("/") ? url : `${url}/`;
+}
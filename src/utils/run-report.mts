@@ -0,0 +1,245 @@
+import { Response } from "node-fetch";
+import path from "path";
+import { PassThrough } from "stream";
+import { FileWriter } from "./file-writer.mts";
+
+export type RunStatus = "succeeded" | "failed";
+export type TldOutcome = "succeeded" | "unchanged" | "failed";
+
+export interface SourceFetch {
+	url: string;
+	/** Null when the request failed without a response */
+	status: number | null;
+	/** Until the body was fully read, or until the request failed */
+	durationMs: number;
+	/** Body bytes read, null when the body was never consumed */
+	bytes: number | null;
+	error: string | null;
+}
+
+export interface TldFailure {
+	tld: string;
+	error: string;
+}
+
+export interface JobReport {
+	job: string;
+	status: RunStatus;
+	startedAt: string;
+	finishedAt: string;
+	durationMs: number;
+	fetches: SourceFetch[];
+	/** Records published to data files and written to the database */
+	recordsWritten: { files: number; database: number };
+	/** Per-TLD imports, all zero for jobs that do not import TLDs one by one */
+	tlds: Record<TldOutcome, number>;
+	failures: TldFailure[];
+	/** Share of the job's TLD imports that failed, from 0 to 1 */
+	failureRate: number;
+	/** Set when the job itself threw */
+	error: string | null;
+}
+
+export interface RunReport {
+	runId: string;
+	status: RunStatus;
+	/** 0 on success, 1 when a job threw, 2 when a job exceeded the failure threshold */
+	exitCode: number;
+	startedAt: string;
+	finishedAt: string;
+	durationMs: number;
+	source: string;
+	mode: "local" | "remote";
+	maxFailureRate: number;
+	jobs: JobReport[];
+	/** What ended the run early, if anything */
+	error: string | null;
+}
+
+export interface RunOptions {
+	source: string;
+	mode: "local" | "remote";
+	/** Defaults to RUN_MAX_FAILURE_RATE or 0.1 */
+	maxFailureRate?: number;
+}
+
+interface ActiveRun extends Required<RunOptions> {
+	startedAt: Date;
+	jobs: JobReport[];
+}
+
+export const RUNS_DIR = "./data/runs";
+
+const DEFAULT_MAX_FAILURE_RATE = parseFloat(process.env.RUN_MAX_FAILURE_RATE || "0.1");
+
+let activeRun: ActiveRun | null = null;
+let activeJob: JobReport | null = null;
+
+/**
+ * Starts collecting the report of a run. Jobs are reported through `runJob`,
+ * anything recorded outside a job (e.g. by subcommands) is ignored.
+ */
+export function startRunReport(options: RunOptions): void {
+	activeRun = {
+		...options,
+		maxFailureRate: options.maxFailureRate ?? DEFAULT_MAX_FAILURE_RATE,
+		startedAt: new Date(),
+		jobs: [],
+	};
+}
+
+/**
+ * Runs one job and records its timings and outcome. Errors are recorded and
+ * rethrown, so a failing job still ends the run.
+ */
+export async function runJob(job: string, fn: () => Promise<void>): Promise<void> {
+	const startedAt = new Date();
+	activeJob = {
+		job,
+		status: "succeeded",
+		startedAt: startedAt.toISOString(),
+		finishedAt: startedAt.toISOString(),
+		durationMs: 0,
+		fetches: [],
+		recordsWritten: { files: 0, database: 0 },
+		tlds: { succeeded: 0, unchanged: 0, failed: 0 },
+		failures: [],
+		failureRate: 0,
+		error: null,
+	};
+	activeRun?.jobs.push(activeJob);
+
+	const report = activeJob;
+	try {
+		await fn();
+	} catch (error) {
+		report.status = "failed";
+		report.error = errorMessage(error);
+		throw error;
+	} finally {
+		const finishedAt = new Date();
+		report.finishedAt = finishedAt.toISOString();
+		report.durationMs = finishedAt.getTime() - startedAt.getTime();
+		activeJob = null;
+	}
+}
+
+export function recordTld(tld: string, outcome: TldOutcome, error?: unknown): void {
+	if (!activeJob) return;
+	activeJob.tlds[outcome]++;
+	if (outcome === "failed") {
+		activeJob.failures.push({ tld, error: errorMessage(error) });
+	}
+}
+
+export function recordWrites(target: "files" | "database", count: number): void {
+	if (activeJob) activeJob.recordsWritten[target] += count;
+}
+
+/**
+ * Records an upstream request once its body has been read. The body is
+ * re-wrapped to count its bytes, like the idle timeout in fetcher.mts.
+ */
+export async function trackFetch(
+	url: string,
+	request: Promise<Response>,
+): Promise<Response> {
+	const job = activeJob;
+	if (!job) return request;
+
+	const started = Date.now();
+	let response: Response;
+	try {
+		response = await request;
+	} catch (error) {
+		job.fetches.push({
+			url,
+			status: null,
+			durationMs: Date.now() - started,
+			bytes: null,
+			error: errorMessage(error),
+		});
+		throw error;
+	}
+
+	const entry: SourceFetch = {
+		url,
+		status: response.status,
+		durationMs: Date.now() - started,
+		bytes: null,
+		error: null,
+	};
+	job.fetches.push(entry);
+	if (!response.body) return response;
+
+	const body = new PassThrough();
+	let bytes = 0;
+	response.body.on("data", (chunk: Buffer) => {
+		bytes += chunk.length;
+	});
+	response.body.on("error", (error) => {
+		entry.error = error.message;
+		body.destroy(error);
+	});
+	body.on("end", () => {
+		entry.bytes = bytes;
+		entry.durationMs = Date.now() - started;
+	});
+	response.body.pipe(body);
+
+	return new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
+
+/**
+ * Closes the run and works out its exit code. `error` is what ended it
+ * early, if anything.
+ */
+export function finishRunReport(error?: unknown): RunReport {
+	if (!activeRun) throw new Error("No run report started");
+	const run = activeRun;
+	activeRun = null;
+
+	run.jobs.forEach((job) => {
+		const attempted = job.tlds.succeeded + job.tlds.unchanged + job.tlds.failed;
+		job.failureRate = attempted > 0 ? job.tlds.failed / attempted : 0;
+	});
+
+	const crashed = error !== undefined || run.jobs.some((job) => job.error);
+	const overThreshold = run.jobs.some((job) => job.failureRate > run.maxFailureRate);
+	const exitCode = crashed ? 1 : overThreshold ? 2 : 0;
+	const finishedAt = new Date();
+
+	return {
+		runId: run.startedAt.toISOString(),
+		status: exitCode === 0 ? "succeeded" : "failed",
+		exitCode,
+		startedAt: run.startedAt.toISOString(),
+		finishedAt: finishedAt.toISOString(),
+		durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+		source: run.source,
+		mode: run.mode,
+		maxFailureRate: run.maxFailureRate,
+		jobs: run.jobs,
+		error: error === undefined ? null : errorMessage(error),
+	};
+}
+
+/**
+ * Writes the report to `data/runs/<runId>.json` and `data/runs/latest.json`,
+ * returning the path of the former.
+ */
+export function saveRunReport(report: RunReport, dir: string = RUNS_DIR): string {
+	// Colons are not allowed in file names on every platform
+	const filePath = path.join(dir, `${report.runId.replace(/:/g, "-")}.json`);
+	FileWriter.writeJson(filePath, report);
+	FileWriter.writeJson(path.join(dir, "latest.json"), report);
+	return filePath;
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
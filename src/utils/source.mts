@@ -0,0 +1,128 @@
+import fs from "fs";
+import { Response } from "node-fetch";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { fetchWithRetry } from "./fetcher.mts";
+import { FileWriter } from "./file-writer.mts";
+import { trackFetch } from "./run-report.mts";
+
+export interface Source {
+	/** True when responses come from disk and no credentials are needed */
+	readonly offline: boolean;
+	/** True when responses are saved as fixtures, so local caches must be bypassed */
+	readonly recording: boolean;
+	fetch(url: string, options?: any): Promise<Response>;
+}
+
+class LiveSource implements Source {
+	readonly offline = false;
+	readonly recording = false;
+
+	fetch(url: string, options: any = {}): Promise<Response> {
+		return fetchWithRetry(url, options);
+	}
+}
+
+class FixtureSource implements Source {
+	readonly offline = true;
+	readonly recording = false;
+
+	constructor(private readonly dir: string) {}
+
+	async fetch(url: string): Promise<Response> {
+		const filePath = fixturePath(this.dir, url);
+		if (!fs.existsSync(filePath)) {
+			throw new Error(`Fixture not found for ${url}: ${filePath}`);
+		}
+		return new Response(fs.readFileSync(filePath), { status: 200 });
+	}
+}
+
+class RecordingSource implements Source {
+	readonly offline = false;
+	readonly recording = true;
+
+	constructor(private readonly dir: string) {}
+
+	async fetch(url: string, options: any = {}): Promise<Response> {
+		// A 304 has nothing to record, so always ask for the full response
+		const { cache, cacheConsumer, ...fetchOptions } = options;
+		const response = await fetchWithRetry(url, fetchOptions);
+
+		// Only GET responses are replayable, and POSTs may carry credentials
+		const method = (options.method || "GET").toUpperCase();
+		if (method !== "GET") return response;
+
+		if (!response.body) return response;
+
+		// Zone files can be gigabytes, so the body goes to disk and is read
+		// back from there instead of being buffered
+		const filePath = fixturePath(this.dir, url);
+		const tmpPath = `${filePath}.tmp`;
+		FileWriter.ensureDirectory(path.dirname(filePath));
+		try {
+			await pipeline(response.body, fs.createWriteStream(tmpPath));
+		} catch (error) {
+			fs.rmSync(tmpPath, { force: true });
+			throw error;
+		}
+		fs.renameSync(tmpPath, filePath);
+
+		return new Response(fs.createReadStream(filePath), {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	}
+}
+
+let activeSource: Source = new LiveSource();
+
+/**
+ * Selects where jobs read upstream data from. `spec` is either `live` or
+ * `fixtures:<dir>`; with `record` set, live responses are saved to `<dir>`.
+ */
+export function configureSource(spec: string = "live", record = false): Source {
+	if (spec === "live") {
+		if (record) throw new Error("--record requires --source=fixtures:<dir>");
+		activeSource = new LiveSource();
+	} else if (spec.startsWith("fixtures:") && spec.length > "fixtures:".length) {
+		const dir = spec.slice("fixtures:".length);
+		activeSource = record ? new RecordingSource(dir) : new FixtureSource(dir);
+	} else {
+		throw new Error(`Invalid source "${spec}", expected "live" or "fixtures:<dir>"`);
+	}
+
+	return activeSource;
+}
+
+export function getSource(): Source {
+	return activeSource;
+}
+
+// When each upstream URL was last fetched successfully, for the manifest
+const fetchTimes = new Map<string, string>();
+
+export async function fetchFromSource(url: string, options: any = {}): Promise<Response> {
+	const response = await trackFetch(url, activeSource.fetch(url, options));
+	if (response.ok || response.status === 304) {
+		fetchTimes.set(url, new Date().toISOString());
+	}
+	return response;
+}
+
+export function getFetchTime(url: string): string | null {
+	return fetchTimes.get(url) ?? null;
+}
+
+// Maps https://host/a/b.json?x=1 to <dir>/host/a/b.json__x=1; extensionless
+// paths get an index file so /db and /db/com.html can both be stored
+function fixturePath(dir: string, url: string): string {
+	const { hostname, pathname, search } = new URL(url);
+	const hasExtension = path.posix.extname(pathname) !== "";
+	let filePath = hasExtension ? pathname : path.posix.join(pathname, "index");
+	if (search) {
+		filePath += `__${search.slice(1).replace(/[^\w.=-]/g, "_")}`;
+	}
+	return path.join(dir, hostname, filePath);
+}
@@ -0,0 +1,182 @@
+import * as cheerio from "cheerio";
+import fs from "fs";
+import { domainToASCII } from "url";
+import { processInBatches } from "./concurrency.mts";
+import { FileWriter } from "./file-writer.mts";
+import { fetchFromSource, getSource } from "./source.mts";
+
+const IANA_TLD_DETAIL_URL = "https://www.iana.org/domains/root/db";
+const CACHE_FILE = "./.cache/tld-details.json";
+
+// Keep the crawl polite, IANA serves these pages from a single origin
+const CONCURRENCY_LIMIT = parseInt(process.env.TLD_DETAILS_CONCURRENCY || "4", 10);
+const CACHE_TTL_HOURS = parseInt(process.env.TLD_DETAILS_CACHE_HOURS || "168", 10);
+
+export interface TldContact {
+	name: string | null;
+	address: string[];
+	email: string | null;
+	voice: string | null;
+	fax: string | null;
+}
+
+export interface TldDetails {
+	sponsor: { name: string | null; address: string[] } | null;
+	adminContact: TldContact | null;
+	techContact: TldContact | null;
+	whoisServer: string | null;
+	registrationUrl: string | null;
+	registrationDate: string | null;
+	lastUpdated: string | null;
+}
+
+interface CacheEntry {
+	fetchedAt: number;
+	details: TldDetails;
+}
+
+/**
+ * Fetches the IANA detail page for each TLD, reusing cached results that are
+ * younger than `TLD_DETAILS_CACHE_HOURS`. Keys are TLDs without the leading dot.
+ */
+export async function fetchTldDetails(
+	domains: string[],
+): Promise<Map<string, TldDetails>> {
+	// Fixture runs must be reproducible, so they bypass the on-disk cache, and
+	// recording fetches every page so the fixtures are complete
+	const { offline, recording } = getSource();
+	const cache = offline ? {} : loadCache();
+	const maxAge = CACHE_TTL_HOURS * 60 * 60 * 1000;
+	const tlds = domains.map((d) => d.replace(/^\./, "").toLowerCase());
+	const stale = tlds.filter(
+		(tld) => recording || !cache[tld] || Date.now() - cache[tld].fetchedAt > maxAge,
+	);
+
+	console.log(
+		`Fetching ${stale.length} TLD detail pages (${tlds.length - stale.length} cached)...`,
+	);
+
+	let failed = 0;
+	await processInBatches(
+		stale,
+		async (tld) => {
+			try {
+				const details = await fetchDetailPage(tld);
+				cache[tld] = { fetchedAt: Date.now(), details };
+			} catch (error) {
+				// Fall back to a stale cache entry if there is one
+				failed++;
+				console.error(`  ❌ Failed to fetch details for ${tld}:`, (error as Error).message);
+			}
+		},
+		CONCURRENCY_LIMIT,
+		offline ? 0 : 500,
+	);
+
+	if (failed > 0) {
+		console.log(`⚠️ ${failed} TLD detail pages could not be fetched`);
+	}
+
+	if (!offline) FileWriter.writeJson(CACHE_FILE, cache);
+
+	const details = new Map<string, TldDetails>();
+	tlds.forEach((tld) => {
+		if (cache[tld]) details.set(tld, cache[tld].details);
+	});
+	return details;
+}
+
+async function fetchDetailPage(tld: string): Promise<TldDetails> {
+	const ascii = domainToASCII(tld) || tld;
+	const response = await fetchFromSource(`${IANA_TLD_DETAIL_URL}/${ascii}.html`);
+	return parseDetailPage(await response.text());
+}
+
+export function parseDetailPage(html: string): TldDetails {
+	const $ = cheerio.load(html);
+	const sections = new Map<string, string[]>();
+
+	$("h2").each((_, heading) => {
+		const paragraph = $(heading).nextUntil("h2").filter("p").first();
+		if (!paragraph.length) return;
+
+		paragraph.find("br").replaceWith("\n");
+		const lines = paragraph
+			.text()
+			.split("\n")
+			.map((line) => line.trim())
+			.filter(Boolean);
+		sections.set($(heading).text().trim().toLowerCase(), lines);
+	});
+
+	const registry = (sections.get("registry information") ?? []).join("\n");
+	const pageText = $("body").text();
+
+	return {
+		sponsor: parseSponsor(sections.get("sponsoring organisation")),
+		adminContact: parseContact(sections.get("administrative contact")),
+		techContact: parseContact(sections.get("technical contact")),
+		whoisServer: matchValue(registry, /WHOIS Server:\s*(\S+)/i),
+		registrationUrl: matchValue(
+			registry,
+			/URL for registration services:\s*(\S+)/i,
+		),
+		registrationDate: matchValue(
+			pageText,
+			/Registration date\s+(\d{4}-\d{2}-\d{2})/i,
+		),
+		lastUpdated: matchValue(
+			pageText,
+			/Record last updated\s+(\d{4}-\d{2}-\d{2})/i,
+		),
+	};
+}
+
+function parseSponsor(
+	lines: string[] | undefined,
+): TldDetails["sponsor"] {
+	if (!lines || lines.length === 0) return null;
+	const [name, ...address] = lines;
+	return { name, address };
+}
+
+function parseContact(lines: string[] | undefined): TldContact | null {
+	if (!lines || lines.length === 0) return null;
+
+	const contact: TldContact = {
+		name: null,
+		address: [],
+		email: null,
+		voice: null,
+		fax: null,
+	};
+
+	for (const line of lines) {
+		const field = line.match(/^(Email|Voice|Fax):\s*(.*)$/i);
+		if (field) {
+			const key = field[1].toLowerCase() as "email" | "voice" | "fax";
+			contact[key] = field[2] || null;
+		} else if (contact.name === null) {
+			contact.name = line;
+		} else {
+			contact.address.push(line);
+		}
+	}
+
+	return contact;
+}
+
+function matchValue(text: string, pattern: RegExp): string | null {
+	const match = text.match(pattern);
+	return match ? match[1] : null;
+}
+
+function loadCache(): Record<string, CacheEntry> {
+	if (!fs.existsSync(CACHE_FILE)) return {};
+
+	try {
+		return JSON.parse(fs.readFileSync(CACHE_FILE, "utf-8"));
+	} catch {
+		return {};
+	}
+}
@@ -0,0 +1,14 @@
+/**
+ * Parses a CLI date. A bare `YYYY-MM-DD` means the end of that day (UTC), so
+ * changes made during the day are included.
+ */
+export function parseAsOfDate(input: string): Date {
+	const value = /^\d{4}-\d{2}-\d{2}$/.test(input)
+		? `${input}T23:59:59.999Z`
+		: input;
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`Invalid date "${input}", expected YYYY-MM-DD or an ISO timestamp`);
+	}
+	return date;
+}
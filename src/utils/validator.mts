@@ -0,0 +1,197 @@
+import type { RootZoneChange, SnapshotRow } from "./changelog.mts";
+import { FileWriter } from "./file-writer.mts";
+import { toALabel } from "./idn.mts";
+
+export interface ValidationThresholds {
+	minTldCount: number;
+	minDelegationCount: number;
+	minRdapServices: number;
+	maxChangePercent: number;
+	/** Cross-source mismatches tolerated per check, e.g. during a delegation */
+	maxInconsistencies: number;
+}
+
+export interface ValidationIssue {
+	check: string;
+	message: string;
+	examples?: string[];
+}
+
+export interface ValidationReport {
+	valid: boolean;
+	checkedAt: string;
+	thresholds: ValidationThresholds;
+	stats: Record<string, number>;
+	issues: ValidationIssue[];
+}
+
+export interface RootZoneValidationInput {
+	combinedData: SnapshotRow[];
+	rdapTlds: string[];
+	delegatedTlds: string[];
+	signedTlds: string[];
+	rdapServiceCount: number;
+	previous: SnapshotRow[] | null;
+	changes: RootZoneChange[];
+}
+
+export class ValidationError extends Error {
+	constructor(readonly report: ValidationReport) {
+		super(
+			`Validation failed: ${report.issues.map((issue) => issue.check).join(", ")}`,
+		);
+		this.name = "ValidationError";
+	}
+}
+
+const TLD_TYPES = new Set([
+	"generic",
+	"country-code",
+	"sponsored",
+	"infrastructure",
+	"generic-restricted",
+	"test",
+]);
+
+const MAX_EXAMPLES = 10;
+
+export function getThresholds(): ValidationThresholds {
+	return {
+		minTldCount: parseInt(process.env.VALIDATION_MIN_TLDS || "1000", 10),
+		minDelegationCount: parseInt(process.env.VALIDATION_MIN_DELEGATIONS || "1000", 10),
+		minRdapServices: parseInt(process.env.VALIDATION_MIN_RDAP_SERVICES || "100", 10),
+		maxChangePercent: parseFloat(process.env.VALIDATION_MAX_CHANGE_PERCENT || "5"),
+		maxInconsistencies: parseInt(process.env.VALIDATION_MAX_INCONSISTENCIES || "0", 10),
+	};
+}
+
+/**
+ * Sanity checks a freshly merged root zone before anything is published, so a
+ * broken scrape or truncated download never replaces good data.
+ */
+export function validateRootZone(
+	input: RootZoneValidationInput,
+	thresholds: ValidationThresholds = getThresholds(),
+): ValidationReport {
+	const issues: ValidationIssue[] = [];
+	const addIssue = (check: string, message: string, examples: string[] = []) =>
+		issues.push({
+			check,
+			message,
+			...(examples.length > 0 && { examples: examples.slice(0, MAX_EXAMPLES) }),
+		});
+
+	// Schema. Names are checked as A-labels, IANA lists right-to-left TLDs
+	// wrapped in direction marks
+	const malformed = input.combinedData.filter(
+		(row) =>
+			typeof row.domain !== "string" ||
+			!/^[a-z0-9-]+$/.test(toALabel(row.domain)) ||
+			!TLD_TYPES.has(row.type) ||
+			typeof row.tldManager !== "string" ||
+			!Array.isArray(row.rdap) ||
+			typeof row.dnssec !== "boolean",
+	);
+	if (malformed.length > 0) {
+		addIssue(
+			"schema",
+			`${malformed.length} TLD rows do not match the expected schema`,
+			malformed.map((row) => JSON.stringify(row)),
+		);
+	}
+
+	// Minimum counts
+	if (input.combinedData.length < thresholds.minTldCount) {
+		addIssue(
+			"min-tld-count",
+			`Only ${input.combinedData.length} TLDs found, expected at least ${thresholds.minTldCount}`,
+		);
+	}
+	if (input.delegatedTlds.length < thresholds.minDelegationCount) {
+		addIssue(
+			"min-delegation-count",
+			`Only ${input.delegatedTlds.length} delegations in the root zone, expected at least ${thresholds.minDelegationCount}`,
+		);
+	}
+	if (input.rdapServiceCount < thresholds.minRdapServices) {
+		addIssue(
+			"min-rdap-services",
+			`Only ${input.rdapServiceCount} RDAP services found, expected at least ${thresholds.minRdapServices}`,
+		);
+	}
+
+	// Change rate against the previous snapshot
+	let changePercent = 0;
+	if (input.previous && input.previous.length > 0) {
+		const changedTlds = new Set(input.changes.map((change) => change.domain));
+		changePercent = (changedTlds.size / input.previous.length) * 100;
+		if (changePercent > thresholds.maxChangePercent) {
+			addIssue(
+				"max-change-percent",
+				`${changePercent.toFixed(1)}% of TLDs changed, limit is ${thresholds.maxChangePercent}%`,
+				Array.from(changedTlds),
+			);
+		}
+	}
+
+	// Cross-source consistency, compared on A-labels
+	const listed = new Set(input.combinedData.map((row) => toALabel(row.domain)));
+	const delegated = new Set(input.delegatedTlds.map(toALabel));
+
+	const unlistedSigned = input.signedTlds.filter((tld) => !listed.has(toALabel(tld)));
+	if (unlistedSigned.length > thresholds.maxInconsistencies) {
+		addIssue(
+			"ds-not-listed",
+			`${unlistedSigned.length} TLDs with DS records are missing from the IANA list`,
+			unlistedSigned,
+		);
+	}
+
+	const undelegatedRdap = input.rdapTlds.filter((tld) => !delegated.has(toALabel(tld)));
+	if (undelegatedRdap.length > thresholds.maxInconsistencies) {
+		addIssue(
+			"rdap-not-delegated",
+			`${undelegatedRdap.length} TLDs in the RDAP bootstrap are not delegated in the root zone`,
+			undelegatedRdap,
+		);
+	}
+
+	return {
+		valid: issues.length === 0,
+		checkedAt: new Date().toISOString(),
+		thresholds,
+		stats: {
+			tlds: input.combinedData.length,
+			delegations: input.delegatedTlds.length,
+			rdapServices: input.rdapServiceCount,
+			changes: input.changes.length,
+			changePercent: Number(changePercent.toFixed(2)),
+		},
+		issues,
+	};
+}
+
+/**
+ * Logs and persists the report. Throws a ValidationError for a failed report
+ * unless `force` is set.
+ */
+export function enforceValidation(
+	report: ValidationReport,
+	reportPath: string,
+	force: boolean,
+): void {
+	FileWriter.writeJson(reportPath, report);
+
+	if (report.valid) {
+		console.log("✅ Validation passed");
+		return;
+	}
+
+	console.error(`\n⚠️ Validation found ${report.issues.length} issues (report: ${reportPath}):`);
+	report.issues.forEach((issue) => {
+		console.error(`   - [${issue.check}] ${issue.message}`);
+	});
+
+	if (!force) throw new ValidationError(report);
+	console.warn("⚠️ Publishing anyway because --force was given");
+}
@@ -0,0 +1,170 @@
+export interface ZoneRecord {
+	owner: string;
+	ttl: number;
+	type: string;
+	rdata: string[];
+}
+
+export interface NameserverRecord {
+	host: string;
+	ttl: number;
+	ipv4: string[];
+	ipv6: string[];
+}
+
+export interface DsRecord {
+	keyTag: number;
+	algorithm: number;
+	algorithmName: string;
+	digestType: number;
+	digestTypeName: string;
+	digest: string;
+	ttl: number;
+}
+
+export interface TldZoneRecords {
+	tld: string;
+	nameservers: NameserverRecord[];
+	ds: DsRecord[];
+}
+
+// https://www.iana.org/assignments/dns-sec-alg-numbers
+const DNSSEC_ALGORITHMS: Record<number, string> = {
+	1: "RSAMD5",
+	3: "DSA",
+	5: "RSASHA1",
+	6: "DSA-NSEC3-SHA1",
+	7: "RSASHA1-NSEC3-SHA1",
+	8: "RSASHA256",
+	10: "RSASHA512",
+	12: "ECC-GOST",
+	13: "ECDSAP256SHA256",
+	14: "ECDSAP384SHA384",
+	15: "ED25519",
+	16: "ED448",
+};
+
+// https://www.iana.org/assignments/ds-rr-types
+const DS_DIGEST_TYPES: Record<number, string> = {
+	1: "SHA-1",
+	2: "SHA-256",
+	3: "GOST R 34.11-94",
+	4: "SHA-384",
+};
+
+const CLASSES = new Set(["IN", "CH", "HS"]);
+
+/**
+ * Parses a single master-file line as published by InterNIC/CZDS, where every
+ * record is on one line with a fully-qualified owner and an explicit TTL.
+ */
+export function parseZoneLine(line: string): ZoneRecord | null {
+	const trimmed = line.trim();
+	if (!trimmed || trimmed.startsWith(";") || trimmed.startsWith("$")) {
+		return null;
+	}
+
+	const parts = trimmed.split(/\s+/);
+	if (parts.length < 4) return null;
+
+	const owner = normalizeName(parts[0]);
+	let index = 1;
+	let ttl = 0;
+
+	if (/^\d+$/.test(parts[index])) {
+		ttl = parseInt(parts[index], 10);
+		index++;
+	}
+	if (CLASSES.has(parts[index]?.toUpperCase())) {
+		index++;
+	}
+
+	const type = parts[index]?.toUpperCase();
+	if (!type) return null;
+
+	return { owner, ttl, type, rdata: parts.slice(index + 1) };
+}
+
+/**
+ * Groups the delegation records of the root zone per TLD: the NS set with
+ * its glue addresses and the DS records.
+ */
+export function parseRootZone(content: string): Map<string, TldZoneRecords> {
+	const nsMap = new Map<string, Map<string, number>>();
+	const dsMap = new Map<string, DsRecord[]>();
+	const glue = new Map<string, { ipv4: Set<string>; ipv6: Set<string> }>();
+
+	const glueFor = (host: string) => {
+		let entry = glue.get(host);
+		if (!entry) {
+			entry = { ipv4: new Set(), ipv6: new Set() };
+			glue.set(host, entry);
+		}
+		return entry;
+	};
+
+	content.split("\n").forEach((line) => {
+		const record = parseZoneLine(line);
+		if (!record) return;
+
+		const { owner, ttl, type, rdata } = record;
+		const isTld = owner !== "" && !owner.includes(".");
+
+		switch (type) {
+			case "NS": {
+				if (!isTld || rdata.length < 1) return;
+				const hosts = nsMap.get(owner) ?? new Map<string, number>();
+				hosts.set(normalizeName(rdata[0]), ttl);
+				nsMap.set(owner, hosts);
+				break;
+			}
+			case "DS": {
+				if (!isTld || rdata.length < 4) return;
+				const algorithm = parseInt(rdata[1], 10);
+				const digestType = parseInt(rdata[2], 10);
+				const records = dsMap.get(owner) ?? [];
+				records.push({
+					keyTag: parseInt(rdata[0], 10),
+					algorithm,
+					algorithmName: DNSSEC_ALGORITHMS[algorithm] ?? "UNKNOWN",
+					digestType,
+					digestTypeName: DS_DIGEST_TYPES[digestType] ?? "UNKNOWN",
+					digest: rdata.slice(3).join("").toUpperCase(),
+					ttl,
+				});
+				dsMap.set(owner, records);
+				break;
+			}
+			case "A":
+				if (rdata[0]) glueFor(owner).ipv4.add(rdata[0]);
+				break;
+			case "AAAA":
+				if (rdata[0]) glueFor(owner).ipv6.add(rdata[0].toLowerCase());
+				break;
+		}
+	});
+
+	const tlds = new Set([...nsMap.keys(), ...dsMap.keys()]);
+	const result = new Map<string, TldZoneRecords>();
+
+	for (const tld of Array.from(tlds).sort()) {
+		const hosts = nsMap.get(tld) ?? new Map<string, number>();
+		const nameservers = Array.from(hosts.entries())
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([host, ttl]) => ({
+				host,
+				ttl,
+				ipv4: Array.from(glue.get(host)?.ipv4 ?? []).sort(),
+				ipv6: Array.from(glue.get(host)?.ipv6 ?? []).sort(),
+			}));
+
+		result.set(tld, { tld, nameservers, ds: dsMap.get(tld) ?? [] });
+	}
+
+	return result;
+}
+
+export function normalizeName(name: string): string {
+	const lower = name.toLowerCase();
+	return lower.endsWith(".") ? lower.slice(0, -1) : lower;
+}
@@ -0,0 +1,159 @@
+import fs from "fs";
+import type { Storage } from "../storage/storage.mts";
+import { FileWriter } from "./file-writer.mts";
+
+export type ZoneRunStatus = "running" | "succeeded" | "unchanged" | "failed";
+
+export interface TldRunState {
+	tld: string;
+	status: ZoneRunStatus;
+	/** Attempts since the last successful import */
+	attempts: number;
+	/** Hash of the last successfully imported zone */
+	zoneHash: string | null;
+	lastError: string | null;
+	runId: string;
+	updatedAt: string;
+}
+
+export interface ZoneRunOptions {
+	/** Only process TLDs the latest run did not complete */
+	resume?: boolean;
+	/** Only process TLDs whose last attempt failed */
+	retryFailed?: boolean;
+	tlds?: string[];
+}
+
+export interface ZoneStateStore {
+	load(): Promise<Map<string, TldRunState>>;
+	save(state: TldRunState): Promise<void>;
+}
+
+export class FileZoneStateStore implements ZoneStateStore {
+	private states = new Map<string, TldRunState>();
+
+	constructor(private readonly filePath: string) {}
+
+	async load(): Promise<Map<string, TldRunState>> {
+		if (fs.existsSync(this.filePath)) {
+			const rows = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as TldRunState[];
+			this.states = new Map(rows.map((row) => [row.tld, row]));
+		}
+		return new Map(this.states);
+	}
+
+	async save(state: TldRunState): Promise<void> {
+		this.states.set(state.tld, state);
+		const rows = Array.from(this.states.values()).sort((a, b) =>
+			a.tld.localeCompare(b.tld),
+		);
+		FileWriter.writeJson(this.filePath, rows);
+	}
+}
+
+export class StorageZoneStateStore implements ZoneStateStore {
+	constructor(private readonly storage: Storage) {}
+
+	load(): Promise<Map<string, TldRunState>> {
+		return this.storage.loadZoneStates();
+	}
+
+	save(state: TldRunState): Promise<void> {
+		return this.storage.saveZoneState(state);
+	}
+}
+
+/**
+ * Tracks one centralized zone run: which TLDs it covers and the outcome of
+ * each, persisted as it goes so an interrupted run can be resumed.
+ */
+export class ZoneRun {
+	private constructor(
+		private readonly store: ZoneStateStore,
+		private readonly states: Map<string, TldRunState>,
+		readonly runId: string,
+		readonly tlds: string[],
+	) {}
+
+	static async start(
+		store: ZoneStateStore,
+		availableTlds: string[],
+		options: ZoneRunOptions = {},
+	): Promise<ZoneRun> {
+		const states = await store.load();
+		const filter = options.tlds?.length ? new Set(options.tlds) : null;
+		let tlds = availableTlds.filter((tld) => !filter || filter.has(tld));
+		let runId = new Date().toISOString();
+
+		if (options.retryFailed) {
+			tlds = tlds.filter((tld) => states.get(tld)?.status === "failed");
+		} else if (options.resume) {
+			const latest = latestRunId(states);
+			if (latest) {
+				runId = latest;
+				tlds = tlds.filter((tld) => !isComplete(states.get(tld), latest));
+			}
+		}
+
+		return new ZoneRun(store, states, runId, tlds);
+	}
+
+	previousHash(tld: string): string | null {
+		return this.states.get(tld)?.zoneHash ?? null;
+	}
+
+	async begin(tld: string): Promise<void> {
+		const previous = this.states.get(tld);
+		await this.update(tld, {
+			status: "running",
+			attempts: (previous?.attempts ?? 0) + 1,
+		});
+	}
+
+	async succeed(tld: string, zoneHash: string | null, unchanged: boolean): Promise<void> {
+		await this.update(tld, {
+			status: unchanged ? "unchanged" : "succeeded",
+			attempts: 0,
+			zoneHash: zoneHash ?? this.previousHash(tld),
+			lastError: null,
+		});
+	}
+
+	async fail(tld: string, error: unknown): Promise<void> {
+		await this.update(tld, {
+			status: "failed",
+			lastError: error instanceof Error ? error.message : String(error),
+		});
+	}
+
+	private async update(tld: string, changes: Partial<TldRunState>): Promise<void> {
+		const state: TldRunState = {
+			tld,
+			status: "running",
+			attempts: 0,
+			zoneHash: null,
+			lastError: null,
+			...this.states.get(tld),
+			...changes,
+			runId: this.runId,
+			updatedAt: new Date().toISOString(),
+		};
+		this.states.set(tld, state);
+		await this.store.save(state);
+	}
+}
+
+function latestRunId(states: Map<string, TldRunState>): string | null {
+	let latest: string | null = null;
+	states.forEach((state) => {
+		if (!latest || state.runId > latest) latest = state.runId;
+	});
+	return latest;
+}
+
+function isComplete(state: TldRunState | undefined, runId: string): boolean {
+	return (
+		state?.runId === runId &&
+		(state.status === "succeeded" || state.status === "unchanged")
+	);
+}
@@ -0,0 +1,161 @@
+import fs from "fs";
+import type { Publication } from "./publisher.mts";
+import { normalizeName, type ZoneRecord } from "./zone-parser.mts";
+
+export interface OperatorCount {
+	/** Registrable domain of the nameserver hosts, e.g. `cloudflare.com` */
+	operator: string;
+	delegations: number;
+}
+
+export interface ZoneStats {
+	tld: string;
+	domainCount: number;
+	fileSize: number;
+	/** Record count per type, e.g. NS, DS, A, AAAA */
+	recordTypes: Record<string, number>;
+	delegations: number;
+	signedDelegations: number;
+	/** Share of delegations with a DS record, from 0 to 1 */
+	dnssecRatio: number;
+	nameserverHosts: number;
+	topOperators: OperatorCount[];
+	updatedAt: string;
+}
+
+const TOP_OPERATORS = 10;
+
+/**
+ * Accumulates record statistics while a zone file is streamed. Unlike the
+ * domain stream it keeps one entry per distinct nameserver host.
+ */
+export class ZoneStatsCollector {
+	private readonly recordTypes = new Map<string, number>();
+	// Host to operator, doubles as the lookup cache
+	private readonly hosts = new Map<string, string>();
+	private readonly operators = new Map<string, number>();
+	private readonly delegationOperators = new Set<string>();
+	private delegations = 0;
+	private signedDelegations = 0;
+	private lastNsOwner: string | null = null;
+	private lastDsOwner: string | null = null;
+
+	constructor(private readonly operatorOf: (host: string) => string) {}
+
+	add(record: ZoneRecord): void {
+		this.recordTypes.set(record.type, (this.recordTypes.get(record.type) ?? 0) + 1);
+
+		// The apex is the only owner without a dot, it is not a delegation.
+		// Records of an owner are listed together, see zone-stream.mts
+		if (!record.owner.includes(".")) return;
+
+		if (record.type === "NS" && record.rdata[0]) {
+			if (record.owner !== this.lastNsOwner) {
+				this.flushDelegation();
+				this.lastNsOwner = record.owner;
+				this.delegations++;
+			}
+			this.delegationOperators.add(this.operatorFor(normalizeName(record.rdata[0])));
+		} else if (record.type === "DS" && record.owner !== this.lastDsOwner) {
+			this.lastDsOwner = record.owner;
+			this.signedDelegations++;
+		}
+	}
+
+	summarize(tld: string, counts: Pick<ZoneStats, "domainCount" | "fileSize">): ZoneStats {
+		this.flushDelegation();
+
+		const topOperators = Array.from(this.operators.entries())
+			.sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+			.slice(0, TOP_OPERATORS)
+			.map(([operator, delegations]) => ({ operator, delegations }));
+
+		return {
+			tld,
+			domainCount: counts.domainCount,
+			fileSize: counts.fileSize,
+			recordTypes: Object.fromEntries(
+				Array.from(this.recordTypes.entries()).sort(([a], [b]) => a.localeCompare(b)),
+			),
+			delegations: this.delegations,
+			signedDelegations: this.signedDelegations,
+			dnssecRatio: this.delegations
+				? Math.round((this.signedDelegations / this.delegations) * 10000) / 10000
+				: 0,
+			nameserverHosts: this.hosts.size,
+			topOperators,
+			updatedAt: new Date().toISOString(),
+		};
+	}
+
+	/** Registrable domain of a nameserver host, normalised with `normalizeName` */
+	operatorFor(host: string): string {
+		let operator = this.hosts.get(host);
+		if (operator === undefined) {
+			operator = this.operatorOf(host);
+			this.hosts.set(host, operator);
+		}
+		return operator;
+	}
+
+	// Each operator counts once per delegation, however many of its hosts it has
+	private flushDelegation(): void {
+		this.delegationOperators.forEach((operator) => {
+			this.operators.set(operator, (this.operators.get(operator) ?? 0) + 1);
+		});
+		this.delegationOperators.clear();
+	}
+}
+
+export function loadZoneStats(filePath: string): Map<string, ZoneStats> {
+	if (!fs.existsSync(filePath)) return new Map();
+	const rows = JSON.parse(fs.readFileSync(filePath, "utf-8")) as ZoneStats[];
+	return new Map(rows.map((row) => [row.tld, row]));
+}
+
+/**
+ * Publishes the stats of every TLD imported so far as the `zone-stats`
+ * dataset, including TLDs the current run skipped.
+ */
+export function saveZoneStats(
+	publication: Publication,
+	stats: Map<string, ZoneStats>,
+): void {
+	const rows = Array.from(stats.values()).sort((a, b) => a.tld.localeCompare(b.tld));
+	publication.write([
+		{
+			name: "zone-stats",
+			data: rows,
+			headers: [
+				"TLD",
+				"Domains",
+				"Zone File Size",
+				"NS Records",
+				"DS Records",
+				"A Records",
+				"AAAA Records",
+				"Delegations",
+				"Signed Delegations",
+				"DNSSEC Ratio",
+				"Nameserver Hosts",
+				"Top Operators",
+				"Updated At",
+			],
+			rows: rows.map((s) => [
+				s.tld,
+				s.domainCount,
+				s.fileSize,
+				s.recordTypes.NS ?? 0,
+				s.recordTypes.DS ?? 0,
+				s.recordTypes.A ?? 0,
+				s.recordTypes.AAAA ?? 0,
+				s.delegations,
+				s.signedDelegations,
+				s.dnssecRatio,
+				s.nameserverHosts,
+				s.topOperators.map((o) => `${o.operator} (${o.delegations})`).join(", "),
+				s.updatedAt,
+			]),
+		},
+	]);
+}
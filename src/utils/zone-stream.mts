@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import fs from "fs";
+import readline from "readline";
+import { pipeline } from "stream/promises";
+import zlib from "zlib";
+import { normalizeName, parseZoneLine } from "./zone-parser.mts";
+import type { ZoneStatsCollector } from "./zone-stats.mts";
+
+export interface ZoneStreamStats {
+	domainCount: number;
+	fileSize: number;
+	/** SHA-256 of the decompressed zone, independent of gzip metadata */
+	sha256: string;
+}
+
+export interface ZoneStreamHandlers {
+	collector?: ZoneStatsCollector;
+	/** Called for every NS record below the apex */
+	onDelegation?: (domain: string, nameserver: string) => Promise<void>;
+}
+
+export interface DomainSink {
+	write(domain: string): Promise<void>;
+	close(): Promise<void>;
+	abort(): void;
+}
+
+// Zone files list every record of an owner together, so a small window of
+// recently seen names is enough to dedupe without holding the whole zone
+const DEDUPE_WINDOW = 10000;
+
+/**
+ * Streams a gzipped zone file line by line and hands each distinct owner name
+ * to `onDomain`. Memory use is bounded regardless of zone size, apart from
+ * what the optional `collector` keeps. Records are only fully parsed when
+ * one of the other handlers is given.
+ */
+export async function streamZoneDomains(
+	body: NodeJS.ReadableStream | null,
+	onDomain: (domain: string) => Promise<void>,
+	{ collector, onDelegation }: ZoneStreamHandlers = {},
+): Promise<ZoneStreamStats> {
+	if (!body) throw new Error("Zone response has no body");
+
+	const gunzip = zlib.createGunzip();
+	const lines = readline.createInterface({ input: gunzip, crlfDelay: Infinity });
+	const recent = new Set<string>();
+	const hash = crypto.createHash("sha256");
+	let domainCount = 0;
+	let fileSize = 0;
+
+	const consume = async () => {
+		try {
+			await readLines();
+		} catch (error) {
+			// Stop the download too, otherwise the pipeline never settles
+			gunzip.destroy(error as Error);
+			throw error;
+		}
+	};
+
+	const readLines = async () => {
+		for await (const line of lines) {
+			fileSize += Buffer.byteLength(line) + 1;
+			hash.update(`${line}\n`);
+			if (collector || onDelegation) await handleRecord(line);
+			if (!line.trim() || line.startsWith(";")) continue;
+
+			const domain = extractDomainFromLine(line);
+			if (!domain || recent.has(domain)) continue;
+
+			recent.add(domain);
+			if (recent.size > DEDUPE_WINDOW) {
+				recent.delete(recent.values().next().value as string);
+			}
+
+			domainCount++;
+			await onDomain(domain);
+		}
+	};
+
+	const handleRecord = async (line: string) => {
+		const record = parseZoneLine(line);
+		if (!record) return;
+
+		collector?.add(record);
+		// The apex is the only owner without a dot
+		if (onDelegation && record.type === "NS" && record.rdata[0] && record.owner.includes(".")) {
+			await onDelegation(record.owner, normalizeName(record.rdata[0]));
+		}
+	};
+
+	await Promise.all([pipeline(body, gunzip), consume()]);
+	return { domainCount, fileSize, sha256: hash.digest("hex") };
+}
+
+/**
+ * Writes one domain per line to a temporary file that replaces `filePath`
+ * only once the zone has been fully read.
+ */
+export function createFileSink(filePath: string): DomainSink {
+	const tmpPath = `${filePath}.tmp`;
+	const stream = fs.createWriteStream(tmpPath);
+
+	return {
+		async write(domain: string) {
+			if (!stream.write(`${domain}\n`)) {
+				await new Promise<void>((resolve) => stream.once("drain", () => resolve()));
+			}
+		},
+		async close() {
+			await new Promise<void>((resolve, reject) => {
+				stream.once("error", reject);
+				stream.end(resolve);
+			});
+			fs.renameSync(tmpPath, filePath);
+		},
+		abort() {
+			// Writes still queued fail once destroyed, nothing waits for them
+			stream.on("error", () => undefined);
+			stream.destroy();
+			fs.rmSync(tmpPath, { force: true });
+			// The file may only be created once a pending open completes
+			stream.once("close", () => fs.rmSync(tmpPath, { force: true }));
+		},
+	};
+}
+
+export function extractDomainFromLine(line: string): string | null {
+	const parts = line.trim().split(/\s+/);
+	if (parts.length === 0) return null;
+
+	let domain = parts[0].toLowerCase();
+	if (domain.endsWith(".")) {
+		domain = domain.slice(0, -1);
+	}
+
+	return domain && !domain.startsWith(";") ? domain : null;
+}